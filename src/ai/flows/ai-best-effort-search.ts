@@ -30,6 +30,20 @@ const GetBestEffortSpecsOutputSchema = z.object({
     fallTime: z.string().describe('The fall time in nanoseconds (ns).'),
     rthJC: z.string().describe('The thermal resistance from junction to case in °C/W.'),
     maxTemperature: z.string().describe('The maximum junction temperature in degrees Celsius.'),
+    diodeVf: z.string().describe('The body/freewheeling diode forward voltage (Vsd/Vf) in Volts.'),
+    diodeRd: z.string().describe('The diode slope resistance in mOhms, from the forward characteristic. "N/A" if not derivable.'),
+    qrr: z.string().describe('The diode reverse recovery charge (Qrr) in nC.'),
+    trr: z.string().describe('The diode reverse recovery time (trr) in nanoseconds (ns).'),
+    reverseConductionVoltage: z.string().describe('The third-quadrant (reverse conduction) voltage drop in Volts for GaN FETs, or the body diode Vsd of SiC MOSFETs. "N/A" otherwise.'),
+    eoss: z.string().describe('The energy stored in the output capacitance (Eoss) in µJ, at the voltage the datasheet specifies it.'),
+    qg: z.string().describe('The total gate charge (Qg) in nC.'),
+    qgs: z.string().describe('The gate-source charge (Qgs) in nC.'),
+    qgd: z.string().describe('The gate-drain (Miller) charge (Qgd) in nC.'),
+    plateauVoltage: z.string().describe('The Miller plateau gate voltage in Volts, from the gate charge curve.'),
+    gateResistance: z.string().describe('The internal gate resistance (Rg) in Ohms. "N/A" if not specified.'),
+    ciss: z.string().describe('The input capacitance (Ciss) in pF.'),
+    coss: z.string().describe('The output capacitance (Coss) in pF.'),
+    crss: z.string().describe('The reverse transfer capacitance (Crss) in pF.'),
     confidence: z.enum(['High', 'Medium', 'Low']).describe("The AI's confidence in the accuracy of the found parameters."),
     sources: z.string().describe("A brief, human-readable description of where the information was aggregated from (e.g., 'Aggregated from distributor listings and forum discussions.')."),
 });
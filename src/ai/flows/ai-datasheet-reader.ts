@@ -31,6 +31,20 @@ const ExtractTransistorSpecsOutputSchema = z.object({
   fallTime: z.string().describe('The fall time in nanoseconds (ns).'),
   rthJC: z.string().describe('The thermal resistance from junction to case in °C/W.'),
   maxTemperature: z.string().describe('The maximum junction temperature in degrees Celsius.'),
+  diodeVf: z.string().describe('The body/freewheeling diode forward voltage (Vsd/Vf) in Volts.'),
+  diodeRd: z.string().describe('The diode slope resistance in mOhms, from the forward characteristic. "N/A" if not derivable.'),
+  qrr: z.string().describe('The diode reverse recovery charge (Qrr) in nC.'),
+  trr: z.string().describe('The diode reverse recovery time (trr) in nanoseconds (ns).'),
+  reverseConductionVoltage: z.string().describe('The third-quadrant (reverse conduction) voltage drop in Volts for GaN FETs, or the body diode Vsd of SiC MOSFETs. "N/A" otherwise.'),
+  eoss: z.string().describe('The energy stored in the output capacitance (Eoss) in µJ, at the voltage the datasheet specifies it.'),
+  qg: z.string().describe('The total gate charge (Qg) in nC.'),
+  qgs: z.string().describe('The gate-source charge (Qgs) in nC.'),
+  qgd: z.string().describe('The gate-drain (Miller) charge (Qgd) in nC.'),
+  plateauVoltage: z.string().describe('The Miller plateau gate voltage in Volts, from the gate charge curve.'),
+  gateResistance: z.string().describe('The internal gate resistance (Rg) in Ohms. "N/A" if not specified.'),
+  ciss: z.string().describe('The input capacitance (Ciss) in pF.'),
+  coss: z.string().describe('The output capacitance (Coss) in pF.'),
+  crss: z.string().describe('The reverse transfer capacitance (Crss) in pF.'),
 });
 export type ExtractTransistorSpecsOutput = z.infer<typeof ExtractTransistorSpecsOutputSchema>;
 
@@ -58,6 +72,16 @@ Extract:
 - fallTime: Typical fall time (tf) in nanoseconds.
 - rthJC: Thermal resistance from junction-to-case (Rth(j-c)) in °C/W.
 - maxTemperature: Maximum operating junction temperature (Tj max) in °C.
+- diodeVf: Body diode (MOSFET) or co-packaged freewheeling diode (IGBT) forward voltage (Vsd/Vf) in Volts.
+- diodeRd: Diode slope resistance in mOhms, estimated from the forward characteristic curve. "N/A" if it cannot be derived.
+- qrr: Diode reverse recovery charge (Qrr) in nC.
+- trr: Diode reverse recovery time (trr) in nanoseconds.
+- qg, qgs, qgd: Total, gate-source and gate-drain (Miller) gate charge in nC. For IGBTs use Qg, Qge and Qgc.
+- plateauVoltage: Gate voltage of the flat Miller plateau on the gate charge curve, in Volts.
+- gateResistance: Internal gate resistance (Rg or Rg,int) in Ohms.
+- reverseConductionVoltage: For GaN FETs, the source-drain (third-quadrant) voltage with the gate off; for SiC MOSFETs, the body diode Vsd. "N/A" for other types.
+- eoss: Energy stored in Coss (Eoss) in µJ, usually given at a fraction of the rated voltage.
+- ciss, coss, crss: Input, output and reverse transfer capacitances in pF (Cies, Coes, Cres for IGBTs).
 
 Ensure that the output matches the described JSON format. If a value cannot be determined, return a best-effort estimate or "N/A".`,
 });
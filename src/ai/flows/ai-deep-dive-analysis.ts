@@ -1,13 +1,16 @@
 'use server';
 
 /**
- * @fileOverview An AI agent that performs an in-depth, iterative analysis to find optimal parameters.
+ * @fileOverview An AI agent that narrates the deep dive optimizer's verified optimum and trade-offs.
  *
- * - runAiDeepDiveAnalysis - The main function to start the deep dive.
+ * - runAiDeepDiveAnalysis - Explains the optimizer result.
  */
 
 import {ai} from '@/ai/genkit';
-import { AiDeepDiveAnalysisInputSchema, AiDeepDiveAnalysisOutputSchema, type AiDeepDiveAnalysisInput, type AiDeepDiveAnalysisOutput } from '@/lib/types';
+import {z} from 'genkit';
+import { AiDeepDiveAnalysisInputSchema, AiDeepDiveAnalysisOutputSchema, type AiDeepDiveAnalysisInput, type AiDeepDiveAnalysisOutput, type OptimizerResult } from '@/lib/types';
+import { formSchema, toEngineParams } from '@/lib/analyzer-form';
+import { simulate } from '@/lib/simulation-engine';
 
 
 export async function runAiDeepDiveAnalysis(
@@ -17,28 +20,31 @@ export async function runAiDeepDiveAnalysis(
 }
 
 
+const AiDeepDiveAnalysisPromptSchema = AiDeepDiveAnalysisInputSchema.extend({
+  verifiedOptimum: z.string().describe('The optimum re-simulated on the server from the initial specs: status, max safe current, failure reason and details.'),
+});
+
 const prompt = ai.definePrompt({
     name: 'aiDeepDiveAnalysisPrompt',
-    input: {schema: AiDeepDiveAnalysisInputSchema},
+    input: {schema: AiDeepDiveAnalysisPromptSchema},
     output: {schema: AiDeepDiveAnalysisOutputSchema},
-    prompt: `You are a world-class electrical engineer AI, specializing in power electronics and thermal simulation. You will be given the results of a simulation and asked to perform a "deep dive" analysis to find the absolute optimal parameters.
+    prompt: `You are a world-class electrical engineer AI, specializing in power electronics and thermal simulation. A deterministic optimizer has already simulated every available cooling method across a range of switching frequencies. Your job is to explain its result to the user; do not propose different parameters.
 
-    **Your Goal:** Find the best combination of cooling and operating frequency to maximize the "Max Safe Current" of the component, without exceeding its thermal or power limits.
-
-    **Available Tools & Data:**
+    **Data:**
     - Initial Simulation Results: {{{simulationResults}}}
     - Component Name: {{{componentName}}}
     - Initial Specs: {{{initialSpecs}}}
-    - Available Cooling Methods (JSON with thermal resistance and budget): {{{allCoolingMethods}}}
+    - Available Cooling Methods (JSON with thermal resistance, budget, cost in USD and volume in cm³): {{{allCoolingMethods}}}
+    - Optimizer Results (JSON): {{{optimizerResults}}}
+    - Server Re-simulation of the Optimum: {{{verifiedOptimum}}}
 
-    **Your Thought Process (Simulated):**
-    1.  **Analyze the Failure:** First, understand why the initial simulation failed or where the bottleneck is. The failure reason is in 'simulationResults'. Was it thermal throttling? Power dissipation? Cooling budget?
-    2.  **Iterate on Frequency:** Determine if lowering the switching frequency would be beneficial. Lower frequency reduces switching losses, which lowers heat. This might allow for a higher current. Find a sweet spot.
-    3.  **Iterate on Cooling:** Examine the list of available coolers. If the failure was thermal or if you need more headroom, select a more powerful cooler (one with lower thermal resistance and higher budget). Consider the trade-off between thermal performance and cost/size (implied by budget).
-    4.  **Synthesize and Recommend:** Based on your iterative analysis, determine the *single best* combination of a cooling solution (by its 'value' property) and switching frequency.
+    **How to Explain It:**
+    1.  **The Bottleneck:** Say what limited the initial simulation, using its failure reason.
+    2.  **The Optimum:** Describe the verified optimum (cooler, frequency and the re-simulated max safe current) and why it relieves that bottleneck, for example lower switching losses at a lower frequency or a lower sink-to-ambient resistance.
+    3.  **The Trade-offs:** Point out one or two notable entries of the Pareto front, such as a cheaper or smaller cooler, or a higher frequency, and what current they give up. Mention the cost and size weights if they are non-zero.
 
     **Output:**
-    Provide your final recommendation in the specified JSON format. Your 'reasoning' should be clear, concise, and explain the trade-offs you considered and why you chose the final parameters. For example: "The initial simulation failed due to thermal limits. By reducing the frequency to 80kHz, we lowered switching losses. This alone wasn't enough, so upgrading to the 'air-dark-rock-pro-4' cooler provided the necessary headroom to reach a new projected max current of 55A."
+    Provide the 'reasoning' in the specified JSON format. Keep it clear and concise, and quote the simulated numbers rather than estimating your own.
     `,
 });
 
@@ -50,9 +56,13 @@ const aiDeepDiveAnalysisFlow = ai.defineFlow(
     outputSchema: AiDeepDiveAnalysisOutputSchema,
   },
   async input => {
-    // In the future, this flow will become stateful and iterative.
-    // For now, it performs a single, powerful analysis to find a better configuration.
-    const {output} = await prompt(input);
+    // The optimum is found by simulation on the client; re-run it here from the same specs so the model only explains numbers the engine produced.
+    const { optimum }: OptimizerResult = JSON.parse(input.optimizerResults);
+    const specs = formSchema.parse({ ...JSON.parse(input.initialSpecs), componentName: input.componentName });
+    const { result } = simulate(toEngineParams({ ...specs, coolingMethod: optimum.coolingMethod, switchingFrequency: optimum.switchingFrequency }));
+    const verifiedOptimum = `Result: ${result.status}. Max safe current: ${result.maxSafeCurrent.toFixed(2)}A. Failure Reason: ${result.failureReason || 'None'}. Details: ${result.details}`;
+
+    const {output} = await prompt({ ...input, verifiedOptimum });
     return output!;
   }
 );
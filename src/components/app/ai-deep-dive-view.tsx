@@ -7,17 +7,56 @@ import { Progress } from "@/components/ui/progress";
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { AnimatePresence, motion } from 'framer-motion';
 import { BrainCircuit, CheckCircle, PackageCheck, Thermometer, Zap } from 'lucide-react';
-import type { AiDeepDiveStep, LiveDataPoint } from '@/lib/types';
+import type { AiDeepDiveStep, LiveDataPoint, OptimizerResult } from '@/lib/types';
 import LiveSimulationView from './live-simulation-view';
-import { coolingMethods } from '@/lib/constants';
+import { coolingMethods, loadCurrentBasis } from '@/lib/constants';
 
 interface AiDeepDiveViewProps {
   steps: AiDeepDiveStep[];
   currentStepIndex: number;
   liveData: LiveDataPoint[];
   initialFormValues: any;
+  optimizer: OptimizerResult | null;
+  runProgress?: number;
+  onStop?: () => void;
 }
 
+const PARETO_ROWS = 8;
+
+// The verified optimum and the best-scoring trade-offs on the Pareto front
+const OptimizerSummary = ({ optimizer }: { optimizer: OptimizerResult }) => {
+    const coolerName = (value: string) => coolingMethods.find(c => c.value === value)?.name ?? value;
+    return (
+        <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+                Optimum of {optimizer.evaluated} simulated configurations: <span className="font-semibold text-foreground">{coolerName(optimizer.optimum.coolingMethod)}</span> at {optimizer.optimum.switchingFrequency.toFixed(0)} kHz, {optimizer.optimum.maxSafeCurrent.toFixed(2)}A.
+            </p>
+            <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                    <tr>
+                        <th className="text-left font-normal">Pareto front ({optimizer.paretoFront.length})</th>
+                        <th className="text-right font-normal">kHz</th>
+                        <th className="text-right font-normal">A</th>
+                        <th className="text-right font-normal">USD</th>
+                        <th className="text-right font-normal">cm³</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {optimizer.paretoFront.slice(0, PARETO_ROWS).map(candidate => (
+                        <tr key={`${candidate.coolingMethod}-${candidate.switchingFrequency}`} className={candidate === optimizer.optimum ? 'text-primary font-semibold' : ''}>
+                            <td className="truncate max-w-[12rem]">{coolerName(candidate.coolingMethod)}</td>
+                            <td className="text-right font-mono">{candidate.switchingFrequency.toFixed(0)}</td>
+                            <td className="text-right font-mono">{candidate.maxSafeCurrent.toFixed(1)}</td>
+                            <td className="text-right font-mono">{candidate.cost}</td>
+                            <td className="text-right font-mono">{candidate.volume}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
 const StepIcon = ({ index, currentIndex }: { index: number, currentIndex: number }) => {
     const isCompleted = index < currentIndex;
     const isCurrent = index === currentIndex;
@@ -35,7 +74,7 @@ const StepIcon = ({ index, currentIndex }: { index: number, currentIndex: number
     );
 };
 
-export default function AiDeepDiveView({ steps, currentStepIndex, liveData, initialFormValues }: AiDeepDiveViewProps) {
+export default function AiDeepDiveView({ steps, currentStepIndex, liveData, initialFormValues, optimizer, runProgress, onStop }: AiDeepDiveViewProps) {
     const currentStep = steps[currentStepIndex];
     const progress = ((currentStepIndex + 1) / steps.length) * 100;
     const [key, setKey] = useState(0);
@@ -75,7 +114,7 @@ export default function AiDeepDiveView({ steps, currentStepIndex, liveData, init
         <Card className="h-full flex flex-col">
             <CardHeader>
                 <CardTitle className="flex items-center gap-2"><BrainCircuit className="text-primary"/> AI Deep Dive Analysis</CardTitle>
-                <CardDescription>The AI is performing a live, iterative analysis to find the optimal configuration.</CardDescription>
+                <CardDescription>Verifying the optimizer&apos;s best configuration while the AI explains the trade-offs.</CardDescription>
             </CardHeader>
             <CardContent className="flex-grow flex flex-col space-y-4">
                 {/* Stepper */}
@@ -111,6 +150,8 @@ export default function AiDeepDiveView({ steps, currentStepIndex, liveData, init
                     </AnimatePresence>
                 </div>
                 
+                {optimizer && <OptimizerSummary optimizer={optimizer} />}
+
                 {/* Live simulation view for the current step */}
                 <div className="flex-grow">
                    <AnimatePresence mode="out-in">
@@ -125,6 +166,9 @@ export default function AiDeepDiveView({ steps, currentStepIndex, liveData, init
                                 liveData={liveData}
                                 simulationMode={simulationMode}
                                 maxTemperature={maxTemperature}
+                                currentBasis={loadCurrentBasis(initialFormValues.topology, initialFormValues.conductionWaveform)}
+                                runProgress={onStop ? runProgress : undefined}
+                                onStop={onStop}
                             />
                         </motion.div>
                     </AnimatePresence>
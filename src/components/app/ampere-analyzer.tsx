@@ -3,76 +3,42 @@
 import React, { useState, useTransition, useCallback, useRef, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { useToast } from "@/hooks/use-toast";
 import SimulationForm from '@/components/app/simulation-form';
 import ResultsDisplay from '@/components/app/results-display';
 import { findDatasheetAction, getAiCalculationsAction, getAiSuggestionsAction, runAiDeepDiveAction, extractSpecsFromDatasheetAction, getBestEffortSpecsAction } from '@/app/actions';
-import type { SimulationResult, AiCalculatedExpectedResultsOutput, AiOptimizationSuggestionsOutput, CoolingMethod, ManualSpecs, LiveDataPoint, AiDeepDiveAnalysisInput, AiDeepDiveStep, HistoryEntry, FindDatasheetOutput, ExtractTransistorSpecsOutput, GetBestEffortSpecsOutput } from '@/lib/types';
-import { coolingMethods, predefinedTransistors } from '@/lib/constants';
+import type { SimulationResult, AiCalculatedExpectedResultsOutput, AiOptimizationSuggestionsOutput, ManualSpecs, LiveDataPoint, AiDeepDiveAnalysisInput, AiDeepDiveStep, HistoryEntry, OptimizerResult, SweepCell, SweepResult, DeratingResult, FindDatasheetOutput, ExtractTransistorSpecsOutput, GetBestEffortSpecsOutput } from '@/lib/types';
+import { coolingMethods, loadCurrentBasis, predefinedTransistors } from '@/lib/constants';
+import { parseFosterNetwork, parseSoaCurves } from '@/lib/parsers';
+import { isChillerHeld } from '@/lib/liquid-cooling';
+import { formSchema, isMosfetType, toEngineParams, type FormValues } from '@/lib/analyzer-form';
+import { optimize, OPTIMIZER_FREQUENCY_STEPS } from '@/lib/optimizer';
+import { createSimulationRunner, SimulationCancelledError, type SimulationRun } from '@/lib/simulation-runner';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import HistoryView from './history-view';
+import SweepView, { type SweepAxisInput } from './sweep-view';
+import DeratingView, { type DeratingInput } from './derating-view';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '../ui/alert-dialog';
 import { FileText, Search, Bot } from 'lucide-react';
 import { Button } from '../ui/button';
 
-const isMosfetType = (type: string) => {
-    return type.includes('MOSFET') || type.includes('GaN');
-};
-
-const formSchema = z.object({
-  predefinedComponent: z.string().optional(),
-  componentName: z.string().optional(),
-  datasheet: z.instanceof(File).optional(),
-  
-  // Core Specs
-  transistorType: z.string().min(1, 'Transistor type is required.'),
-  maxCurrent: z.coerce.number().positive(),
-  maxVoltage: z.coerce.number().positive(),
-  powerDissipation: z.coerce.number().positive().optional(),
-  rdsOn: z.coerce.number().optional(), // mOhms
-  vceSat: z.coerce.number().optional(), // V
-  riseTime: z.coerce.number().positive(), // ns
-  fallTime: z.coerce.number().positive(), // ns
-  rthJC: z.coerce.number().positive("Junction-to-Case Thermal Resistance is required."), // °C/W
-  maxTemperature: z.coerce.number().positive(),
-
-
-  // Simulation Constraints
-  simulationMode: z.enum(['ftf', 'temp', 'budget']).default('ftf'),
-  simulationAlgorithm: z.enum(['iterative', 'binary']).default('iterative'),
-  precisionSteps: z.coerce.number().min(10).max(500).default(200),
-  switchingFrequency: z.coerce.number().positive(), // kHz
-  coolingMethod: z.string().min(1, 'Please select a cooling method'),
-  ambientTemperature: z.coerce.number().default(25),
-  
-  // FTF Limits
-  coolingBudget: z.coerce.number().optional(),
-
-}).superRefine((data: { componentName: any; predefinedComponent: any; transistorType: string; rdsOn: number; vceSat: number; simulationMode: string; coolingBudget: number; }, ctx: { addIssue: (arg0: { code: any; path: string[]; message: string; }) => void; }) => {
-    if (!data.componentName && !data.predefinedComponent) {
-      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['componentName'], message: 'Device name is required if not selecting a predefined one.' });
-    }
-    if (data.transistorType && isMosfetType(data.transistorType) && (!data.rdsOn || data.rdsOn <= 0)) {
-        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rdsOn'], message: 'Rds(on) is required for this transistor type and must be positive.' });
-    }
-    if (data.transistorType && !isMosfetType(data.transistorType) && (!data.vceSat || data.vceSat <= 0)) {
-        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['vceSat'], message: 'Vce(sat) is required for this transistor type and must be positive.' });
-    }
-    if (data.simulationMode === 'budget' && (!data.coolingBudget || data.coolingBudget <= 0)) {
-      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['coolingBudget'], message: 'Cooling Budget must be a positive number for this mode.' });
-    }
-});
-
-
-type FormValues = z.infer<typeof formSchema>;
-
 type DialogState = 
     | { type: 'idle' }
     | { type: 'datasheet_found'; data: FindDatasheetOutput }
     | { type: 'no_datasheet_found' }
     | { type: 'best_effort_found'; data: GetBestEffortSpecsOutput };
 
+// Low end of derating curves, the usual industrial ambient rating (°C)
+const DERATING_MIN_TEMPERATURE = -40;
+
+// Grid values along one sweep axis; cooling method steps through the whole library
+const sweepAxisValues = ({ parameter, from, to, steps }: SweepAxisInput): (number | string)[] => {
+  if (parameter === 'coolingMethod') return coolingMethods.map(c => c.value);
+  return Array.from({ length: steps }, (_, i) => {
+    const value = from + ((to - from) * i) / (steps - 1);
+    return parameter === 'parallelCount' ? Math.max(1, Math.round(value)) : value;
+  });
+};
 
 export default function AmpereAnalyzer() {
   const [isPending, startTransition] = useTransition();
@@ -85,16 +51,29 @@ export default function AmpereAnalyzer() {
   const [isDeepDiveRunning, setIsDeepDiveRunning] = useState(false);
   const [deepDiveSteps, setDeepDiveSteps] = useState<AiDeepDiveStep[]>([]);
   const [currentDeepDiveStep, setCurrentDeepDiveStep] = useState(0);
+  const [deepDiveOptimizer, setDeepDiveOptimizer] = useState<OptimizerResult | null>(null);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [activeTab, setActiveTab] = useState('analyzer');
+  const [sweepResult, setSweepResult] = useState<SweepResult | null>(null);
+  const [sweepProgress, setSweepProgress] = useState(0);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [deratingResult, setDeratingResult] = useState<DeratingResult | null>(null);
+  const [deratingProgress, setDeratingProgress] = useState(0);
+  const [isDerating, setIsDerating] = useState(false);
   const [dialogState, setDialogState] = useState<DialogState>({ type: 'idle' });
+  const [runner] = useState(createSimulationRunner);
+  const [runProgress, setRunProgress] = useState(0);
 
   // Simplified: single display data array with throttled updates
   const [displayData, setDisplayData] = useState<LiveDataPoint[]>([]);
   const pendingDataRef = useRef<LiveDataPoint[]>([]);
-  const chartAlgorithmRef = useRef<'iterative' | 'binary'>('iterative');
+  const chartAlgorithmRef = useRef<FormValues['simulationAlgorithm']>('iterative');
   const chartUpdateIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const deepDiveAnimationRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
+  // The analysis or deep dive run that Stop cancels, and a token that is bumped whenever that run is superseded
+  const analysisRunRef = useRef<SimulationRun<unknown> | null>(null);
+  const runTokenRef = useRef(0);
   
   useEffect(() => {
     try {
@@ -109,11 +88,12 @@ export default function AmpereAnalyzer() {
     return () => {
       if (chartUpdateIntervalRef.current) clearInterval(chartUpdateIntervalRef.current);
       if (deepDiveAnimationRef.current) clearInterval(deepDiveAnimationRef.current);
+      runner.terminate();
     }
-  }, []);
+  }, [runner]);
 
   // Throttled chart update function - updates at ~15fps to prevent Recharts overload
-  const startThrottledChartUpdates = useCallback((algorithm: 'iterative' | 'binary') => {
+  const startThrottledChartUpdates = useCallback((algorithm: FormValues['simulationAlgorithm']) => {
     if (chartUpdateIntervalRef.current) {
       clearInterval(chartUpdateIntervalRef.current);
     }
@@ -130,8 +110,8 @@ export default function AmpereAnalyzer() {
 
         setDisplayData((prev: LiveDataPoint[]) => {
           let updated = [...prev, ...newPoints];
-          // Sort for binary search visualization
-          if (algorithm === 'binary') {
+          // Sort for binary search and Monte Carlo visualization, whose points arrive out of current order
+          if (algorithm !== 'iterative') {
             updated = updated.sort((a, b) => a.current - b.current);
           }
           // Limit points to prevent Recharts slowdown
@@ -151,7 +131,7 @@ export default function AmpereAnalyzer() {
       const remaining = pendingDataRef.current.splice(0);
       setDisplayData((prev: LiveDataPoint[]) => {
         let updated = [...prev, ...remaining];
-        if (chartAlgorithmRef.current === 'binary') {
+        if (chartAlgorithmRef.current !== 'iterative') {
           updated = updated.sort((a, b) => a.current - b.current);
         }
         return updated.slice(-150);
@@ -186,12 +166,36 @@ export default function AmpereAnalyzer() {
       componentName: '',
       maxTemperature: 150,
       coolingMethod: 'air-nh-d15',
+      thermalInterface: 'none',
+      contactArea: 150,
       switchingFrequency: 100,
       ambientTemperature: 25,
+      topology: 'dc-switch',
+      conductionWaveform: 'trapezoid',
+      switchingMode: 'hard',
+      parallelCount: 1,
       transistorType: 'MOSFET (N-Channel)',
       simulationMode: 'ftf',
       simulationAlgorithm: 'iterative',
       precisionSteps: 200,
+      binaryTolerance: 0.01,
+      binaryMaxIterations: 40,
+      monteCarloSamples: 1000,
+      tolerances: {
+        conduction: { shape: 'normal' },
+        rthJC: { shape: 'normal' },
+        coolerRth: { shape: 'normal' },
+        switching: { shape: 'normal' },
+      },
+      loadProfile: 'pulse',
+      lifetimeModel: 'lesit',
+      pulseWidth: 10,
+      pulsePeriod: 100,
+      transientDuration: 60,
+      optimizerMinFrequency: 10,
+      optimizerMaxFrequency: 200,
+      costWeight: 0,
+      sizeWeight: 0,
     },
   });
   
@@ -209,6 +213,29 @@ export default function AmpereAnalyzer() {
       form.setValue('maxTemperature', parseFloat(specs.maxTemperature) || 150);
       form.setValue('riseTime', parseFloat(specs.riseTime) || 0);
       form.setValue('fallTime', parseFloat(specs.fallTime) || 0);
+      form.setValue('tempCoefficient', parseFloat(specs.tempCoefficient ?? '') || 0);
+      form.setValue('zthFoster', specs.zthFoster && parseFosterNetwork(specs.zthFoster) ? specs.zthFoster : '');
+      form.setValue('eon', parseFloat(specs.eon ?? '') || undefined);
+      form.setValue('eoff', parseFloat(specs.eoff ?? '') || undefined);
+      form.setValue('erec', parseFloat(specs.erec ?? '') || undefined);
+      form.setValue('eoss', parseFloat(specs.eoss ?? '') || undefined);
+      form.setValue('energyRefVoltage', parseFloat(specs.energyRefVoltage ?? '') || undefined);
+      form.setValue('energyRefCurrent', parseFloat(specs.energyRefCurrent ?? '') || undefined);
+      form.setValue('energyRefTemperature', parseFloat(specs.energyRefTemperature ?? '') || undefined);
+      form.setValue('diodeVf', parseFloat(specs.diodeVf ?? '') || undefined);
+      form.setValue('diodeRd', parseFloat(specs.diodeRd ?? '') || undefined);
+      form.setValue('qrr', parseFloat(specs.qrr ?? '') || undefined);
+      form.setValue('trr', parseFloat(specs.trr ?? '') || undefined);
+      form.setValue('reverseConductionVoltage', parseFloat(specs.reverseConductionVoltage ?? '') || undefined);
+      form.setValue('qg', parseFloat(specs.qg ?? '') || undefined);
+      form.setValue('qgs', parseFloat(specs.qgs ?? '') || undefined);
+      form.setValue('qgd', parseFloat(specs.qgd ?? '') || undefined);
+      form.setValue('plateauVoltage', parseFloat(specs.plateauVoltage ?? '') || undefined);
+      form.setValue('gateResistance', parseFloat(specs.gateResistance ?? '') || undefined);
+      form.setValue('ciss', parseFloat(specs.ciss ?? '') || undefined);
+      form.setValue('coss', parseFloat(specs.coss ?? '') || undefined);
+      form.setValue('crss', parseFloat(specs.crss ?? '') || undefined);
+      form.setValue('soaCurves', specs.soaCurves && parseSoaCurves(specs.soaCurves) ? specs.soaCurves : '');
 
       const type = specs.transistorType || form.getValues('transistorType');
       form.setValue('transistorType', type);
@@ -298,69 +325,167 @@ export default function AmpereAnalyzer() {
   }, [form, toast]);
 
 
+  // Queues a run on the shared worker; it becomes the analysis run that Stop cancels
   const runSimulation = (
     values: FormValues,
-    updateCallback: (data: LiveDataPoint) => void
+    updateCallback: (data: LiveDataPoint) => void,
+    onProgress?: (progress: number) => void
   ): Promise<SimulationResult> => {
-    return new Promise((resolve, reject) => {
-      const {
-        maxCurrent, maxVoltage, powerDissipation, rthJC, riseTime, fallTime,
-        switchingFrequency, maxTemperature, ambientTemperature, coolingMethod,
-        transistorType, rdsOn, vceSat, simulationMode, coolingBudget,
-        simulationAlgorithm, precisionSteps,
-      } = values;
-  
-      const selectedCooling = coolingMethods.find(c => c.value === coolingMethod) as CoolingMethod;
-      const totalRth = rthJC + selectedCooling.thermalResistance;
-      const rdsOnOhms = (rdsOn || 0) / 1000;
-      const effectiveCoolingBudget = (simulationMode === 'budget' && coolingBudget) ? coolingBudget : selectedCooling.coolingBudget;
+    const run = runner.simulate(toEngineParams(values), { onData: updateCallback, onProgress });
+    analysisRunRef.current = run;
+    return run.result;
+  };
+
+  // Stops the analysis or deep dive in progress. Anything the stopped run still reports is ignored.
+  const stopAnalysis = useCallback(() => {
+    runTokenRef.current++;
+    analysisRunRef.current?.cancel();
+    analysisRunRef.current = null;
+    stopThrottledChartUpdates();
+    setIsDeepDiveRunning(false);
+  }, [stopThrottledChartUpdates]);
+
+  const handleStop = () => {
+    stopAnalysis();
+    toast({ title: 'Simulation Stopped', description: 'The run was cancelled before it finished.' });
+  };
   
-      // Create Web Worker
-      const worker = new Worker('/simulation-worker.js');
-      
-      // Handle messages from worker (supports both single points and batches)
-      worker.onmessage = (e) => {
-        const { type, data, result } = e.data;
-
-        if (type === 'dataPoint') {
-          // Single data point (used by binary search)
-          updateCallback(data);
-        } else if (type === 'dataBatch') {
-          // Batch of data points (used by iterative algorithm)
-          for (const point of data) {
-            updateCallback(point);
-          }
-        } else if (type === 'complete') {
-          // Simulation finished
-          worker.terminate();
-          resolve(result);
-        }
-      };
-      
-      worker.onerror = (error) => {
-        worker.terminate();
-        reject(error);
-      };
-      
-      // Send simulation parameters to worker
-      worker.postMessage({
-        maxCurrent, maxVoltage, powerDissipation, rthJC, riseTime, fallTime,
-        switchingFrequency, maxTemperature, ambientTemperature, totalRth,
-        transistorType, rdsOnOhms, vceSat, simulationMode, coolingBudget,
-        simulationAlgorithm, precisionSteps, effectiveCoolingBudget
-      });
+
+
+  // Fans every grid point out across the worker pool, reporting each cell as it finishes
+  const runSweep = (values: FormValues, x: SweepAxisInput, y: SweepAxisInput, onProgress: (progress: number) => void): SimulationRun<SweepResult> => {
+    const xValues = sweepAxisValues(x);
+    const yValues = sweepAxisValues(y);
+    const grid = yValues.flatMap(yValue => xValues.map(xValue => ({ x: xValue, y: yValue })));
+    const cells: SweepCell[] = [];
+    const coolers = x.parameter === 'coolingMethod' ? xValues : y.parameter === 'coolingMethod' ? yValues : [values.coolingMethod];
+    const sweepsChilledAmbient = [x, y].some(axis => axis.parameter === 'ambientTemperature')
+      && coolers.some(cooler => isChillerHeld(coolingMethods.find(c => c.value === cooler), values.coolantInletTemperature));
+
+    const run = runner.sweep(
+      grid.map(point => toEngineParams({ ...values, [x.parameter]: point.x, [y.parameter]: point.y })),
+      message => {
+        cells[message.index] = { ...grid[message.index], ...message.result };
+        onProgress(message.progress);
+      },
+    );
+    return {
+      ...run,
+      result: run.result.then(() => ({
+        x: { parameter: x.parameter, values: xValues },
+        y: { parameter: y.parameter, values: yValues },
+        cells,
+        chillerInlet: sweepsChilledAmbient ? values.coolantInletTemperature : undefined,
+      })),
+    };
+  };
+
+  const handleRunSweep = (x: SweepAxisInput, y: SweepAxisInput) => {
+    form.handleSubmit(async (values) => {
+      if (!values.maxCurrent || values.maxCurrent <= 0) {
+        toast({ variant: 'destructive', title: 'Invalid Input', description: 'Please populate component specs before running a sweep.' });
+        return;
+      }
+      // Without a cooler axis every cell would sit on the same chiller-held inlet
+      const axes = [x, y].map(axis => axis.parameter);
+      if (axes.includes('ambientTemperature') && !axes.includes('coolingMethod')
+        && isChillerHeld(coolingMethods.find(c => c.value === values.coolingMethod), values.coolantInletTemperature)) {
+        toast({ variant: 'destructive', title: 'Invalid Input', description: `A chiller holds the coolant inlet at ${values.coolantInletTemperature}°C, so ambient does not change the limit. Clear the inlet temperature or sweep another parameter.` });
+        return;
+      }
+      setIsSweeping(true);
+      setSweepProgress(0);
+      try {
+        setSweepResult(await runSweep(values, x, y, setSweepProgress).result);
+      } catch (error) {
+        toast({ variant: 'destructive', title: 'Sweep Failed', description: error instanceof Error ? error.message : 'The simulation worker stopped unexpectedly.' });
+      } finally {
+        setIsSweeping(false);
+      }
+    }, () => {
+      toast({ variant: 'destructive', title: 'Invalid Input', description: 'Fix the errors in the analyzer form before running a sweep.' });
+    })();
+  };
+
+  const handleSweepCellSelect = (cell: SweepCell) => {
+    if (!sweepResult) return;
+    form.reset({
+      ...form.getValues(),
+      [sweepResult.x.parameter]: cell.x,
+      [sweepResult.y.parameter]: cell.y,
     });
+    setActiveTab('analyzer');
+    toast({ title: 'Configuration Loaded', description: `The form now uses this sweep point (${cell.maxSafeCurrent.toFixed(2)}A). Run the analysis for the full breakdown.` });
   };
-  
 
+  // Steps the ambient (or case) temperature from DERATING_MIN_TEMPERATURE up to the max junction temperature,
+  // one limit search per step across the worker pool
+  const runDerating = (values: FormValues, { basis, coolingMethod, steps }: DeratingInput, onProgress: (progress: number) => void): SimulationRun<DeratingResult> => {
+    const temperatures = Array.from({ length: steps }, (_, i) => DERATING_MIN_TEMPERATURE + ((values.maxTemperature - DERATING_MIN_TEMPERATURE) * i) / (steps - 1));
+    const cooler = coolingMethod || values.coolingMethod;
+    const points: DeratingResult['points'] = [];
+
+    const run = runner.sweep(
+      temperatures.map(temperature => {
+        const params = toEngineParams({ ...values, coolingMethod: cooler, ambientTemperature: temperature });
+        // An ideal heatsink pins the case at the step temperature, whatever the device dissipates
+        return basis === 'case'
+          ? { ...params, ambientTemperature: temperature, totalRth: params.rthJC, rthCS: 0, coolerRth: 0, coolant: undefined, effectiveCoolingBudget: Infinity }
+          : params;
+      }),
+      message => {
+        points[message.index] = { temperature: temperatures[message.index], maxSafeCurrent: message.result.maxSafeCurrent, failureReason: message.result.failureReason };
+        onProgress(message.progress);
+      },
+    );
+    return {
+      ...run,
+      result: run.result.then(() => ({
+        basis,
+        coolingMethod: basis === 'ambient' ? coolingMethods.find(c => c.value === cooler)?.name ?? cooler : null,
+        currentBasis: loadCurrentBasis(values.topology, values.conductionWaveform),
+        currentRating: values.maxCurrent,
+        points,
+      })),
+    };
+  };
+
+  const handleRunDerating = (input: DeratingInput) => {
+    form.handleSubmit(async (values) => {
+      if (!values.maxCurrent || values.maxCurrent <= 0) {
+        toast({ variant: 'destructive', title: 'Invalid Input', description: 'Please populate component specs before running a derating curve.' });
+        return;
+      }
+      if (values.maxTemperature <= DERATING_MIN_TEMPERATURE) {
+        toast({ variant: 'destructive', title: 'Invalid Input', description: `The max junction temperature must be above ${DERATING_MIN_TEMPERATURE}°C.` });
+        return;
+      }
+      if (input.basis === 'ambient' && isChillerHeld(coolingMethods.find(c => c.value === (input.coolingMethod || values.coolingMethod)), values.coolantInletTemperature)) {
+        toast({ variant: 'destructive', title: 'Invalid Input', description: `A chiller holds the coolant inlet at ${values.coolantInletTemperature}°C, so ambient does not change the limit. Use a fixed case, another cooler or clear the inlet temperature.` });
+        return;
+      }
+      setIsDerating(true);
+      setDeratingProgress(0);
+      try {
+        setDeratingResult(await runDerating(values, input, setDeratingProgress).result);
+      } catch (error) {
+        toast({ variant: 'destructive', title: 'Derating Failed', description: error instanceof Error ? error.message : 'The simulation worker stopped unexpectedly.' });
+      } finally {
+        setIsDerating(false);
+      }
+    }, () => {
+      toast({ variant: 'destructive', title: 'Invalid Input', description: 'Fix the errors in the analyzer form before running a derating curve.' });
+    })();
+  };
 
 // Simplified onSubmit with proper throttling
 const onSubmit = (values: FormValues) => {
+  // A new analysis replaces whatever run or deep dive is still going
+  stopAnalysis();
+  const token = runTokenRef.current;
   startTransition(async () => {
-    // Cleanup existing intervals
-    stopThrottledChartUpdates();
-
     // Reset state
+    setRunProgress(0);
     setSimulationResult(null);
     setAiCalculatedResults(null);
     setAiOptimizationSuggestions(null);
@@ -383,11 +508,20 @@ const onSubmit = (values: FormValues) => {
       pendingDataQueue.push(newDataPoint);
     };
 
-    // Start throttled chart updates (~15fps)
-    startThrottledChartUpdates(values.simulationAlgorithm);
+    // Start throttled chart updates (~15fps); transient points arrive in time order and must not be re-sorted
+    startThrottledChartUpdates(values.simulationMode === 'transient' ? 'iterative' : values.simulationAlgorithm);
 
     // Run simulation in Web Worker
-    const simResult = await runSimulation(values, updateCallback);
+    let simResult: SimulationResult;
+    try {
+      simResult = await runSimulation(values, updateCallback, setRunProgress);
+    } catch (error) {
+      if (error instanceof SimulationCancelledError) return;
+      stopThrottledChartUpdates();
+      toast({ variant: 'destructive', title: 'Simulation Failed', description: error instanceof Error ? error.message : 'The simulation worker stopped unexpectedly.' });
+      return;
+    }
+    if (runTokenRef.current !== token) return;
 
     // Stop throttled updates and flush remaining data
     stopThrottledChartUpdates();
@@ -411,11 +545,9 @@ const onSubmit = (values: FormValues) => {
   ): Promise<{ result: SimulationResult, dataQueue: LiveDataPoint[] }> => {
       const combinedValues = { ...initialValues, ...newValues };
       const dataQueue: LiveDataPoint[] = [];
-      const result = await new Promise<SimulationResult>((resolve) => {
-        runSimulation(combinedValues, (newData) => {
-            dataQueue.push(newData);
-        }).then(resolve);
-      });
+      const result = await runSimulation(combinedValues, (newData) => {
+          dataQueue.push(newData);
+      }, setRunProgress);
       return { result, dataQueue };
   }, [runSimulation]);
 
@@ -424,11 +556,16 @@ const onSubmit = (values: FormValues) => {
         toast({ variant: 'destructive', title: 'Error', description: 'Need initial results to run a deep dive.' });
         return;
     }
-    
+
+    stopAnalysis();
+    const token = runTokenRef.current;
+    const isStale = () => runTokenRef.current !== token;
+
     startTransition(async () => {
         setIsDeepDiveRunning(true);
         setCurrentDeepDiveStep(0);
         setDeepDiveSteps([]);
+        setDeepDiveOptimizer(null);
         setDisplayData([]);
         scrollToResults();
         if (deepDiveAnimationRef.current) clearInterval(deepDiveAnimationRef.current);
@@ -449,129 +586,161 @@ const onSubmit = (values: FormValues) => {
         delete initialSpecs.datasheet;
         delete initialSpecs.predefinedComponent;
 
-        const deepDiveInput: AiDeepDiveAnalysisInput = {
-            componentName,
-            coolingMethod: selectedCooling?.name || 'N/A',
-            maxTemperature: values.maxTemperature,
-            coolingBudget: coolingBudgetVal,
-            simulationResults: simulationSummary,
-            allCoolingMethods: JSON.stringify(coolingMethods.map(c => ({name: c.name, value: c.value, thermalResistance: c.thermalResistance, coolingBudget: c.coolingBudget}))),
-            initialSpecs: JSON.stringify(initialSpecs),
-        };
-
-        toast({ title: "AI Deep Dive Started", description: "The AI is running an iterative analysis..." });
-        
-        const result = await runAiDeepDiveAction(deepDiveInput);
+        try {
+            toast({ title: "AI Deep Dive Started", description: "Simulating every cooler across the frequency range..." });
 
-        if (result.error || !result.data) {
-            toast({ variant: 'destructive', title: 'AI Deep Dive Error', description: result.error || "No data returned from AI." });
-            setIsDeepDiveRunning(false);
-            return;
-        } 
-        
-        const bestCoolerInfo = coolingMethods.find(c => c.value === result.data.bestCoolingMethod);
-
-        // Prepare simulation steps
-        const simulationSteps: AiDeepDiveStep[] = [
-            {
-                title: "Analyzing Initial Results",
-                description: `AI is reviewing the initial simulation where the failure occurred at ${simulationResult.maxSafeCurrent.toFixed(2)}A due to ${simulationResult.failureReason}. The goal is to push past this limit.`,
-                simulationResult: simulationResult,
-                simulationParams: {},
-            },
-            {
-                title: `Optimizing Frequency to ${result.data.optimalFrequency} kHz`,
-                description: `AI has identified that reducing switching losses is key. It's now testing a new frequency of ${result.data.optimalFrequency} kHz.`,
-                simulationResult: null,
-                simulationParams: { switchingFrequency: result.data.optimalFrequency },
-            },
-            {
-                title: `Applying Cooler: ${bestCoolerInfo?.name || result.data.bestCoolingMethod}`,
-                description: `To handle the remaining heat, the AI is applying the '${bestCoolerInfo?.name || result.data.bestCoolingMethod}' and re-evaluating performance with the new thermal solution.`,
-                simulationResult: null,
-                simulationParams: { coolingMethod: result.data.bestCoolingMethod, switchingFrequency: result.data.optimalFrequency },
-            },
-            {
-                title: "Final Recommendation",
-                description: result.data.reasoning,
-                simulationResult: null,
-                simulationParams: {},
-            }
-        ];
-        
-        setDeepDiveSteps(simulationSteps);
-
-        // This function will animate a single simulation's data with throttling
-        const animateSimulationData = (dataQueue: LiveDataPoint[]) => {
-            return new Promise<void>((resolve) => {
-                if (deepDiveAnimationRef.current) {
-                    clearInterval(deepDiveAnimationRef.current);
-                    deepDiveAnimationRef.current = null;
+            // Search every cooler × frequency pair with the engine; the AI only narrates the verified optimum
+            const sweepRun = runSweep(
+                values,
+                { parameter: 'switchingFrequency', from: Number(values.optimizerMinFrequency), to: Number(values.optimizerMaxFrequency), steps: OPTIMIZER_FREQUENCY_STEPS },
+                { parameter: 'coolingMethod', from: 0, to: 0, steps: 1 },
+                setRunProgress,
+            );
+            analysisRunRef.current = sweepRun;
+            const sweep = await sweepRun.result;
+            if (isStale()) return;
+            const optimizer = optimize(sweep, { cost: Number(values.costWeight) || 0, size: Number(values.sizeWeight) || 0 });
+            const { optimum } = optimizer;
+            setDeepDiveOptimizer(optimizer);
+
+            const deepDiveInput: AiDeepDiveAnalysisInput = {
+                componentName,
+                coolingMethod: selectedCooling?.name || 'N/A',
+                maxTemperature: values.maxTemperature,
+                coolingBudget: coolingBudgetVal,
+                simulationResults: simulationSummary,
+                allCoolingMethods: JSON.stringify(coolingMethods.map(c => ({name: c.name, value: c.value, thermalResistance: c.thermalResistance, coolingBudget: c.coolingBudget, cost: c.cost, volume: c.volume}))),
+                initialSpecs: JSON.stringify(initialSpecs),
+                optimizerResults: JSON.stringify(optimizer),
+            };
+
+            const result = await runAiDeepDiveAction(deepDiveInput);
+            if (isStale()) return;
+
+            if (result.error || !result.data) {
+                toast({ variant: 'destructive', title: 'AI Deep Dive Error', description: result.error || "No data returned from AI." });
+                setIsDeepDiveRunning(false);
+                return;
+            } 
+
+            const bestCoolerInfo = coolingMethods.find(c => c.value === optimum.coolingMethod);
+            const optimumParams = { coolingMethod: optimum.coolingMethod, switchingFrequency: optimum.switchingFrequency };
+
+            // Prepare simulation steps
+            const simulationSteps: AiDeepDiveStep[] = [
+                {
+                    title: "Analyzing Initial Results",
+                    description: `AI is reviewing the initial simulation where the failure occurred at ${simulationResult.maxSafeCurrent.toFixed(2)}A due to ${simulationResult.failureReason}. The goal is to push past this limit.`,
+                    simulationResult: simulationResult,
+                    simulationParams: {},
+                },
+                {
+                    title: `Optimizing Frequency to ${optimum.switchingFrequency.toFixed(0)} kHz`,
+                    description: `The optimizer simulated ${optimizer.evaluated} cooler and frequency pairs. Its optimum runs at ${optimum.switchingFrequency.toFixed(0)} kHz; this step applies that frequency with the original cooler.`,
+                    simulationResult: null,
+                    simulationParams: { switchingFrequency: optimum.switchingFrequency },
+                },
+                {
+                    title: `Applying Cooler: ${bestCoolerInfo?.name || optimum.coolingMethod}`,
+                    description: `Verifying the optimum with the '${bestCoolerInfo?.name || optimum.coolingMethod}' at ${optimum.switchingFrequency.toFixed(0)} kHz, which the search put at ${optimum.maxSafeCurrent.toFixed(2)}A.`,
+                    simulationResult: null,
+                    simulationParams: optimumParams,
+                },
+                {
+                    title: "Final Recommendation",
+                    description: result.data.reasoning,
+                    simulationResult: null,
+                    simulationParams: {},
                 }
-                setDisplayData([]);
-
-                const MAX_POINTS = 150;
-                const UPDATE_INTERVAL = 50; // ~20fps for deep dive animation
-
-                deepDiveAnimationRef.current = setInterval(() => {
-                    if (dataQueue.length > 0) {
-                        // Take up to 3 points per update
-                        const pointsToTake = Math.min(3, dataQueue.length);
-                        const newPoints = dataQueue.splice(0, pointsToTake);
-                        setDisplayData((prev: LiveDataPoint[]) => [...prev, ...newPoints].slice(-MAX_POINTS));
-                    } else {
-                        clearInterval(deepDiveAnimationRef.current!);
+            ];
+
+            setDeepDiveSteps(simulationSteps);
+
+            // This function will animate a single simulation's data with throttling
+            const animateSimulationData = (dataQueue: LiveDataPoint[]) => {
+                return new Promise<void>((resolve) => {
+                    if (deepDiveAnimationRef.current) {
+                        clearInterval(deepDiveAnimationRef.current);
                         deepDiveAnimationRef.current = null;
-                        resolve();
                     }
-                }, UPDATE_INTERVAL);
-            });
-        };
-
-        // Run through steps
-        for(let i = 0; i < simulationSteps.length; i++) {
-            setCurrentDeepDiveStep(i);
-            const step = simulationSteps[i];
-
-            if(step.simulationResult === null && Object.keys(step.simulationParams).length > 0) {
-                const { result: stepSimResult, dataQueue } = await runDeepDiveSimulation(values, step.simulationParams);
-                simulationSteps[i].simulationResult = stepSimResult;
-                setDeepDiveSteps([...simulationSteps]);
-                await animateSimulationData(dataQueue);
-                
-            } else if (step.simulationResult) {
-                 const { dataQueue } = await runDeepDiveSimulation(values, {});
-                 await animateSimulationData(dataQueue);
+                    setDisplayData([]);
+
+                    const MAX_POINTS = 150;
+                    const UPDATE_INTERVAL = 50; // ~20fps for deep dive animation
+
+                    const interval = setInterval(() => {
+                        // A newer run owns the chart now; finish without drawing
+                        if (isStale()) {
+                            clearInterval(interval);
+                            if (deepDiveAnimationRef.current === interval) deepDiveAnimationRef.current = null;
+                            resolve();
+                        } else if (dataQueue.length > 0) {
+                            // Take up to 3 points per update
+                            const pointsToTake = Math.min(3, dataQueue.length);
+                            const newPoints = dataQueue.splice(0, pointsToTake);
+                            setDisplayData((prev: LiveDataPoint[]) => [...prev, ...newPoints].slice(-MAX_POINTS));
+                        } else {
+                            clearInterval(interval);
+                            deepDiveAnimationRef.current = null;
+                            resolve();
+                        }
+                    }, UPDATE_INTERVAL);
+                    deepDiveAnimationRef.current = interval;
+                });
+            };
+
+            // Run through steps
+            for(let i = 0; i < simulationSteps.length; i++) {
+                setCurrentDeepDiveStep(i);
+                const step = simulationSteps[i];
+
+                if(step.simulationResult === null && Object.keys(step.simulationParams).length > 0) {
+                    const { result: stepSimResult, dataQueue } = await runDeepDiveSimulation(values, step.simulationParams);
+                    simulationSteps[i].simulationResult = stepSimResult;
+                    setDeepDiveSteps([...simulationSteps]);
+                    await animateSimulationData(dataQueue);
+
+                } else if (step.simulationResult) {
+                     const { dataQueue } = await runDeepDiveSimulation(values, {});
+                     await animateSimulationData(dataQueue);
+                }
+                if (isStale()) return;
+
+                if(i < simulationSteps.length -1) {
+                  await new Promise(r => setTimeout(r, 2500)); // wait before going to next step
+                  if (isStale()) return;
+                }
             }
 
-            if(i < simulationSteps.length -1) {
-              await new Promise(r => setTimeout(r, 2500)); // wait before going to next step
+            toast({
+                title: "AI Deep Dive Complete",
+                description: `Verified optimum: ${(simulationSteps[simulationSteps.length-2].simulationResult?.maxSafeCurrent ?? optimum.maxSafeCurrent).toFixed(2)}A.`,
+                duration: 9000,
+            });
+
+            const finalDiveResult = simulationSteps[simulationSteps.length-2].simulationResult;
+            if (finalDiveResult) {
+                const historyEntry: HistoryEntry = {
+                    id: new Date().toISOString(),
+                    componentName: `${componentName} (AI Optimized)`,
+                    timestamp: new Date().toISOString(),
+                    simulationResult: finalDiveResult,
+                    formValues: { ...values, ...optimumParams },
+                };
+                addToHistory(historyEntry);
             }
-        }
-        
-        toast({
-            title: "AI Deep Dive Complete",
-            description: `Optimal solution found! Projected Current: ${result.data.projectedMaxSafeCurrent.toFixed(2)}A.`,
-            duration: 9000,
-        });
-        
-        const finalDiveResult = simulationSteps[simulationSteps.length-2].simulationResult;
-        if (finalDiveResult) {
-            const historyEntry: HistoryEntry = {
-                id: new Date().toISOString(),
-                componentName: `${componentName} (AI Optimized)`,
-                timestamp: new Date().toISOString(),
-                simulationResult: finalDiveResult,
-                formValues: { ...values, coolingMethod: result.data.bestCoolingMethod, switchingFrequency: result.data.optimalFrequency },
-            };
-            addToHistory(historyEntry);
-        }
 
-        // Keep the dive view open, but mark it as 'done'
-        setIsDeepDiveRunning(true); 
+            // Keep the dive view open, but mark it as 'done'
+            setIsDeepDiveRunning(true);
+        } catch (error) {
+            // A stopped dive has already been cleaned up by stopAnalysis
+            if (error instanceof SimulationCancelledError) return;
+            toast({ variant: 'destructive', title: 'AI Deep Dive Error', description: error instanceof Error ? error.message : 'The simulation worker stopped unexpectedly.' });
+            setIsDeepDiveRunning(false);
+        }
     });
 
-}, [simulationResult, aiOptimizationSuggestions, form, toast, runDeepDiveSimulation, history]);
+}, [simulationResult, aiOptimizationSuggestions, form, toast, runDeepDiveSimulation, runSweep, stopAnalysis, history]);
 
 
   const renderDialogs = () => {
@@ -666,9 +835,10 @@ const onSubmit = (values: FormValues) => {
           Advanced power transistor analysis with multi-variable thermal simulation.
         </p>
       </header>
-      <Tabs defaultValue='analyzer' className='w-full'>
-        <TabsList className='grid w-full grid-cols-2'>
+      <Tabs value={activeTab} onValueChange={setActiveTab} className='w-full'>
+        <TabsList className='grid w-full grid-cols-3'>
             <TabsTrigger value="analyzer">Analyzer</TabsTrigger>
+            <TabsTrigger value="sweep">Sweep</TabsTrigger>
             <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
         <TabsContent value="analyzer">
@@ -695,9 +865,27 @@ const onSubmit = (values: FormValues) => {
                         isDeepDiveRunning={isDeepDiveRunning}
                         deepDiveSteps={deepDiveSteps}
                         currentDeepDiveStep={currentDeepDiveStep}
+                        deepDiveOptimizer={deepDiveOptimizer}
+                        runProgress={runProgress}
+                        onStop={handleStop}
                     />
                 </div>
             </div>
+        </TabsContent>
+         <TabsContent value="sweep">
+            <SweepView
+                onRunSweep={handleRunSweep}
+                onSelectCell={handleSweepCellSelect}
+                isSweeping={isSweeping}
+                progress={sweepProgress}
+                sweepResult={sweepResult}
+            />
+            <DeratingView
+                onRunDerating={handleRunDerating}
+                isRunning={isDerating}
+                progress={deratingProgress}
+                deratingResult={deratingResult}
+            />
         </TabsContent>
          <TabsContent value="history">
             <HistoryView history={history} clearHistory={clearHistory} />
@@ -0,0 +1,198 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Loader2, TrendingDown } from 'lucide-react';
+import { coolingMethods, currentBasisLabels } from '@/lib/constants';
+import type { DeratingResult } from '@/lib/types';
+
+export interface DeratingInput {
+  basis: DeratingResult['basis'];
+  coolingMethod: string; // Empty to keep the analyzer form's cooler
+  steps: number;
+}
+
+interface DeratingViewProps {
+  onRunDerating: (input: DeratingInput) => void;
+  isRunning: boolean;
+  progress: number;
+  deratingResult: DeratingResult | null;
+}
+
+const MAX_STEPS = 40;
+const FORM_COOLER = 'form';
+
+const basisLabels: Record<DeratingResult['basis'], string> = {
+  ambient: 'Ambient Temperature',
+  case: 'Case Temperature',
+};
+
+const downloadFile = (fileName: string, type: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const toCsv = (result: DeratingResult, packageLimit: number | null) => {
+  const header = [`${basisLabels[result.basis]} (°C)`, `Max Safe ${currentBasisLabels[result.currentBasis]} (A)`, 'Limiting Constraint', 'Current Rating (A)', 'Package Limit (A)'];
+  const rows = result.points.map(point => [
+    point.temperature.toFixed(2),
+    point.maxSafeCurrent.toFixed(3),
+    point.failureReason ?? '',
+    result.currentRating.toString(),
+    packageLimit?.toString() ?? '',
+  ]);
+  return [header, ...rows].map(row => row.join(',')).join('\n');
+};
+
+// The chart is styled with the theme's CSS variables, which mean nothing outside the page
+const standaloneSvg = (svg: SVGSVGElement) => {
+  const styles = getComputedStyle(document.documentElement);
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  return new XMLSerializer()
+    .serializeToString(clone)
+    .replace(/var\((--[\w-]+)\)/g, (_, name: string) => styles.getPropertyValue(name).trim());
+};
+
+const DeratingTooltip = ({ active, payload, basis }: any) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className="p-2 bg-background/80 border border-border rounded-lg shadow-lg">
+        <p className="label text-sm font-bold">{`${basisLabels[basis as DeratingResult['basis']]}: ${point.temperature.toFixed(1)} °C`}</p>
+        <p className="intro text-xs text-primary">{`Max safe current: ${point.maxSafeCurrent.toFixed(2)} A`}</p>
+        <p className="intro text-xs text-muted-foreground">{`Limit: ${point.failureReason ?? 'none reached'}`}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+export default function DeratingView({ onRunDerating, isRunning, progress, deratingResult }: DeratingViewProps) {
+  const [basis, setBasis] = useState<DeratingResult['basis']>('ambient');
+  const [coolingMethod, setCoolingMethod] = useState(FORM_COOLER);
+  const [steps, setSteps] = useState(20);
+  const [packageLimit, setPackageLimit] = useState('');
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const packageCurrent = parseFloat(packageLimit) > 0 ? parseFloat(packageLimit) : null;
+  const canRun = !isRunning && Number.isInteger(steps) && steps >= 2 && steps <= MAX_STEPS;
+  const fileName = deratingResult ? `derating-${deratingResult.basis}` : 'derating';
+
+  const exportSvg = () => {
+    const svg = chartRef.current?.querySelector('svg');
+    if (svg) downloadFile(`${fileName}.svg`, 'image/svg+xml', standaloneSvg(svg));
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><TrendingDown className="text-primary" /> Derating Curve</CardTitle>
+        <CardDescription>
+          Max safe current from -40°C up to the max junction temperature, against ambient through the chosen cooler or against a case held at temperature by an ideal heatsink. Every other input keeps its analyzer form value.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label>Temperature</Label>
+            <Select value={basis} onValueChange={value => setBasis(value as DeratingResult['basis'])}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ambient">Ambient</SelectItem>
+                <SelectItem value="case">Fixed Case</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Cooling Method</Label>
+            <Select value={coolingMethod} onValueChange={setCoolingMethod} disabled={basis === 'case'}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={FORM_COOLER}>As in the analyzer form</SelectItem>
+                {coolingMethods.map(c => (
+                  <SelectItem key={c.value} value={c.value}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Steps</Label>
+            <Input type="number" step="1" min={2} max={MAX_STEPS} value={steps} onChange={e => setSteps(parseInt(e.target.value, 10))} />
+          </div>
+          <div className="space-y-2">
+            <Label>Package Limit (A)</Label>
+            <Input type="number" step="any" placeholder="Optional" value={packageLimit} onChange={e => setPackageLimit(e.target.value)} />
+          </div>
+        </div>
+        <Button
+          onClick={() => onRunDerating({ basis, coolingMethod: basis === 'ambient' && coolingMethod !== FORM_COOLER ? coolingMethod : '', steps })}
+          disabled={!canRun}
+          className="w-full"
+        >
+          {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <TrendingDown className="mr-2 h-4 w-4" />}
+          Run Derating
+        </Button>
+        {isRunning && <Progress value={progress} className="w-full h-3" />}
+        {deratingResult && (
+          <div className="space-y-4">
+            <div ref={chartRef} className="w-full h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={deratingResult.points} margin={{ top: 15, right: 30, left: 10, bottom: 15 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+                  <XAxis
+                    dataKey="temperature"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    unit="°C"
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    tickFormatter={(value) => value.toFixed(0)}
+                    label={{ value: basisLabels[deratingResult.basis], position: 'insideBottom', offset: -10, fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                  />
+                  <YAxis
+                    unit="A"
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    domain={[0, (dataMax: number) => Math.ceil(Math.max(dataMax, deratingResult.currentRating, packageCurrent ?? 0) * 1.05)]}
+                    label={{ value: `Max Safe ${currentBasisLabels[deratingResult.currentBasis]}`, angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))', fontSize: 11, dy: 60 }}
+                  />
+                  <Tooltip content={<DeratingTooltip basis={deratingResult.basis} />} />
+                  <Line type="monotone" dataKey="maxSafeCurrent" stroke="hsl(var(--primary))" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+                  <ReferenceLine y={deratingResult.currentRating} stroke="hsl(var(--destructive))" strokeDasharray="4 4" label={{ value: 'Current rating', position: 'insideTopRight', fill: 'hsl(var(--destructive))', fontSize: 11 }} />
+                  {packageCurrent !== null && (
+                    <ReferenceLine y={packageCurrent} stroke="hsl(var(--chart-4))" strokeDasharray="6 3" label={{ value: 'Package limit', position: 'insideBottomRight', fill: 'hsl(var(--chart-4))', fontSize: 11 }} />
+                  )}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <p className="text-xs text-muted-foreground">
+                {deratingResult.basis === 'ambient' ? `Cooled by ${deratingResult.coolingMethod}.` : 'Case held at temperature; cooler and interface are ignored.'}
+                {packageCurrent !== null && ' Above the package limit the bond wires and leads limit the current, not the die.'}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => downloadFile(`${fileName}.csv`, 'text/csv', toCsv(deratingResult, packageCurrent))}>
+                  <Download className="mr-2 h-4 w-4" /> CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={exportSvg}>
+                  <Download className="mr-2 h-4 w-4" /> SVG
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
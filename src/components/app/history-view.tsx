@@ -33,6 +33,7 @@ export default function HistoryView({ history, clearHistory }: HistoryViewProps)
                   <TableHead>Component</TableHead>
                   <TableHead>Date</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Limit</TableHead>
                   <TableHead className="text-right">Max Safe Current (A)</TableHead>
                   <TableHead className="text-right">Final Temp (°C)</TableHead>
                 </TableRow>
@@ -47,6 +48,7 @@ export default function HistoryView({ history, clearHistory }: HistoryViewProps)
                         {entry.simulationResult.status}
                       </Badge>
                     </TableCell>
+                    <TableCell>{entry.simulationResult.failureReason ?? 'None reached'}</TableCell>
                     <TableCell className="text-right">{entry.simulationResult.maxSafeCurrent.toFixed(2)}</TableCell>
                     <TableCell className="text-right">{entry.simulationResult.finalTemperature.toFixed(2)}</TableCell>
                   </TableRow>
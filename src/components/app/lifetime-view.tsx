@@ -0,0 +1,84 @@
+"use client";
+
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import type { HistogramBin, LifetimeResult } from '@/lib/types';
+
+interface LifetimeViewProps {
+  lifetime: LifetimeResult;
+}
+
+const modelNames: Record<LifetimeResult['model'], string> = {
+  lesit: 'LESIT',
+  'coffin-manson': 'Coffin-Manson',
+};
+
+const formatCount = (value: number) =>
+  value >= 1e4 ? value.toExponential(2) : value.toFixed(value < 10 ? 2 : 0);
+
+const formatLifetime = (hours: number) =>
+  hours >= 8760 ? `${formatCount(hours / 8760)} years` : `${formatCount(hours)} hours`;
+
+const HistogramTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const bin = payload[0].payload;
+    return (
+      <div className="p-2 bg-background/80 border border-border rounded-lg shadow-lg">
+        <p className="label text-sm font-bold">{`${bin.from.toFixed(1)} – ${bin.to.toFixed(1)} °C`}</p>
+        <p className="intro text-xs text-primary">{`Cycles: ${bin.cycles}`}</p>
+        <p className="intro text-xs text-red-400">{`Damage: ${bin.damage.toExponential(2)}`}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+const CycleHistogram = ({ title, bins, fill }: { title: string; bins: HistogramBin[]; fill: string }) => (
+  <div>
+    <p className="text-sm text-muted-foreground mb-2">{title}</p>
+    <div className="w-full h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={bins.map(bin => ({ ...bin, label: ((bin.from + bin.to) / 2).toFixed(1) }))} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+          <XAxis dataKey="label" unit="°C" stroke="hsl(var(--muted-foreground))" fontSize={10} />
+          <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} allowDecimals />
+          <Tooltip content={<HistogramTooltip />} cursor={{ fill: 'hsl(var(--muted) / 0.5)' }} />
+          <Bar dataKey="cycles" fill={fill} isAnimationActive={false} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+export default function LifetimeView({ lifetime }: LifetimeViewProps) {
+  const metrics = [
+    { label: 'Cycles per Profile', value: formatCount(lifetime.cycles) },
+    { label: 'Life Consumed per Profile', value: `${lifetime.consumedLife.toExponential(2)} %` },
+    { label: 'Profiles to Failure', value: lifetime.repetitionsToFailure !== null ? formatCount(lifetime.repetitionsToFailure) : 'No wear' },
+    { label: 'Estimated Lifetime', value: lifetime.lifetimeHours !== null ? formatLifetime(lifetime.lifetimeHours) : 'No wear' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {metrics.map(metric => (
+          <div key={metric.label} className="rounded-lg p-4 bg-white/5">
+            <p className="text-sm text-muted-foreground">{metric.label}</p>
+            <p className="text-xl font-bold">{metric.value}</p>
+          </div>
+        ))}
+      </div>
+      {lifetime.worstCycle && (
+        <p className="text-sm text-muted-foreground">
+          Largest swing: &Delta;Tj {lifetime.worstCycle.deltaTj.toFixed(1)}°C around {lifetime.worstCycle.meanTj.toFixed(1)}°C, {formatCount(lifetime.worstCycle.cyclesToFailure)} cycles to failure ({modelNames[lifetime.model]}).
+        </p>
+      )}
+      {lifetime.deltaTjHistogram.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <CycleHistogram title="ΔTj Distribution" bins={lifetime.deltaTjHistogram} fill="hsl(var(--chart-2))" />
+          <CycleHistogram title="Tj,mean Distribution" bins={lifetime.meanTjHistogram} fill="hsl(var(--chart-1))" />
+        </div>
+      )}
+    </div>
+  );
+}
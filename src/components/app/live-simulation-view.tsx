@@ -4,21 +4,29 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Legend } from 'recharts';
-import type { LiveDataPoint } from '@/lib/types';
-import { Info } from 'lucide-react';
+import type { CurrentBasis, LiveDataPoint } from '@/lib/types';
+import { currentBasisLabels } from '@/lib/constants';
+import { Info, Square } from 'lucide-react';
 
 interface LiveSimulationViewProps {
   liveData: LiveDataPoint[];
-  simulationMode: 'ftf' | 'temp' | 'budget';
+  simulationMode: 'ftf' | 'temp' | 'budget' | 'transient';
   maxTemperature: number;
+  currentBasis?: CurrentBasis; // What the load current measures, so the axis can say so
+  runProgress?: number; // % of the worker run completed
+  onStop?: () => void;
 }
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CustomTooltip = ({ active, payload, label, currentLabel }: any) => {
   if (active && payload && payload.length) {
     return (
       <div className="p-2 bg-background/80 border border-border rounded-lg shadow-lg">
-        <p className="label text-sm font-bold">{`Current: ${payload[0].payload.current.toFixed(2)} A`}</p>
+        {payload[0].payload.time !== undefined && (
+          <p className="label text-sm font-bold">{`Time: ${payload[0].payload.time.toFixed(3)} s`}</p>
+        )}
+        <p className="label text-sm font-bold">{`${currentLabel}: ${payload[0].payload.current.toFixed(2)} A`}</p>
         <p className="intro text-xs text-primary">{`Temperature: ${payload[0].value.toFixed(2)} °C`}</p>
         <p className="intro text-xs text-red-400">{`Power Loss: ${payload[0].payload.powerLoss.toFixed(2)} W`}</p>
       </div>
@@ -27,13 +35,15 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-export default function LiveSimulationView({ liveData, simulationMode, maxTemperature }: LiveSimulationViewProps) {
+export default function LiveSimulationView({ liveData, simulationMode, maxTemperature, currentBasis, runProgress, onStop }: LiveSimulationViewProps) {
     const lastPoint = liveData.length > 0 ? liveData[liveData.length - 1] : {
         current: 0,
         temperature: 0,
         powerLoss: 0,
         conductionLoss: 0,
         switchingLoss: 0,
+        diodeConductionLoss: 0,
+        reverseRecoveryLoss: 0,
         progress: 0,
     };
     const progress = lastPoint ? lastPoint.progress : 0;
@@ -41,21 +51,28 @@ export default function LiveSimulationView({ liveData, simulationMode, maxTemper
     const progressLabelMap = {
         ftf: "Progress to First Limit",
         temp: "Progress to Temp Limit",
-        budget: "Progress to Budget Limit"
+        budget: "Progress to Budget Limit",
+        transient: "Junction Temp vs. Limit"
     };
 
     const progressDescriptionMap = {
         ftf: "Test will stop when any parameter (temp, power, budget, etc.) exceeds its limit.",
         temp: `Test will stop when junction temperature exceeds ${maxTemperature}°C.`,
-        budget: `Test will stop when total power loss exceeds the defined cooling budget.`
+        budget: `Test will stop when total power loss exceeds the defined cooling budget.`,
+        transient: `Tracks junction temperature over the load profile against the ${maxTemperature}°C limit.`
     };
 
+    const isTransient = simulationMode === 'transient';
+    const currentLabel = currentBasis ? currentBasisLabels[currentBasis] : 'Current';
+
     const barChartData = [
-        { name: 'Current (A)', value: lastPoint.current, fill: 'var(--color-current)' },
+        { name: `${currentLabel} (A)`, value: lastPoint.current, fill: 'var(--color-current)' },
         { name: 'Junction Temp (°C)', value: lastPoint.temperature, fill: 'var(--color-temp)' },
         { name: 'Total Heat (W)', value: lastPoint.powerLoss, fill: 'var(--color-heat)' },
         { name: 'Conduction (W)', value: lastPoint.conductionLoss, fill: 'var(--color-conduction)' },
         { name: 'Switching (W)', value: lastPoint.switchingLoss, fill: 'var(--color-switching)' },
+        { name: 'Diode Cond. (W)', value: lastPoint.diodeConductionLoss ?? 0, fill: 'var(--color-diode)' },
+        { name: 'Recovery (W)', value: lastPoint.reverseRecoveryLoss ?? 0, fill: 'var(--color-recovery)' },
     ];
     
     return (
@@ -67,18 +84,30 @@ export default function LiveSimulationView({ liveData, simulationMode, maxTemper
                     --color-heat: hsl(var(--chart-3));
                     --color-conduction: hsl(var(--chart-4));
                     --color-switching: hsl(var(--chart-5));
+                    --color-diode: hsl(var(--chart-3));
+                    --color-recovery: hsl(var(--chart-2));
                 }
             `}</style>
-            <CardHeader>
-                <CardTitle>Live Analysis</CardTitle>
-                <CardDescription>Visualizing simulation progress in real-time...</CardDescription>
+            <CardHeader className={onStop ? "flex flex-row items-start justify-between gap-4 space-y-0" : undefined}>
+                <div className="space-y-1.5">
+                    <CardTitle>Live Analysis</CardTitle>
+                    <CardDescription>
+                        Visualizing simulation progress in real-time...
+                        {runProgress !== undefined && ` ${runProgress}% complete.`}
+                    </CardDescription>
+                </div>
+                {onStop && (
+                    <Button variant="destructive" size="sm" onClick={onStop}>
+                        <Square className="mr-2 h-4 w-4" /> Stop
+                    </Button>
+                )}
             </CardHeader>
             <CardContent className="space-y-6">
                 <div className="w-full h-48">
                     <ResponsiveContainer width="100%" height="100%">
                         <AreaChart
                             data={liveData}
-                            margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+                            margin={{ top: 10, right: 30, left: 0, bottom: isTransient ? 0 : 15 }}
                         >
                             <defs>
                                 <linearGradient id="colorTemp" x1="0" y1="0" x2="0" y2="1">
@@ -88,13 +117,14 @@ export default function LiveSimulationView({ liveData, simulationMode, maxTemper
                             </defs>
                             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
                             <XAxis 
-                                dataKey="current" 
+                                dataKey={isTransient ? "time" : "current"} 
                                 type="number"
                                 domain={['dataMin', 'dataMax']}
-                                unit="A"
+                                unit={isTransient ? "s" : "A"}
                                 stroke="hsl(var(--muted-foreground))"
                                 fontSize={12}
-                                tickFormatter={(val) => val.toFixed(1)}
+                                tickFormatter={(val) => val.toFixed(isTransient ? 2 : 1)}
+                                label={isTransient ? undefined : { value: `${currentLabel} (A)`, position: 'insideBottom', offset: -10, fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
                             />
                             <YAxis 
                                 yAxisId="left" 
@@ -103,7 +133,7 @@ export default function LiveSimulationView({ liveData, simulationMode, maxTemper
                                 stroke="hsl(var(--muted-foreground))"
                                 fontSize={12}
                             />
-                            <Tooltip content={<CustomTooltip />}/>
+                            <Tooltip content={<CustomTooltip currentLabel={currentLabel} />}/>
                             <Area 
                                 yAxisId="left" 
                                 type="monotone" 
@@ -0,0 +1,81 @@
+"use client";
+
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import type { ConstraintMargin } from '@/lib/types';
+
+interface MarginChartProps {
+  margins: ConstraintMargin[];
+  maxSafeCurrent: number;
+}
+
+const formatMargin = (margin: number, maxSafeCurrent: number) =>
+  `${margin >= 0 ? '+' : ''}${margin.toFixed(2)}A${maxSafeCurrent > 0 ? ` (${margin >= 0 ? '+' : ''}${((margin / maxSafeCurrent) * 100).toFixed(0)}%)` : ''}`;
+
+const WaterfallTooltip = ({ active, payload, maxSafeCurrent }: any) => {
+  if (active && payload && payload.length) {
+    const step = payload[0].payload;
+    return (
+      <div className="p-2 bg-background/80 border border-border rounded-lg shadow-lg">
+        <p className="label text-sm font-bold">{step.reason}{!step.enforced && ' (not enforced)'}</p>
+        <p className="intro text-xs text-primary">{`Reached at ${step.limitCurrent.toFixed(2)}A, margin ${formatMargin(step.margin, maxSafeCurrent)}`}</p>
+        <p className="intro text-xs text-muted-foreground">{`Relaxing the limits before it buys ${step.gain.toFixed(2)}A`}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+// Waterfall of the current at which each constraint alone is reached: every bar starts where the previous limit
+// ends, so its height is the headroom gained by lifting all limits to its left.
+export default function MarginChart({ margins, maxSafeCurrent }: MarginChartProps) {
+  const reached = margins.filter(m => m.limitCurrent !== null);
+  const steps = reached.map((m, index) => {
+    const base = index === 0 ? 0 : reached[index - 1].limitCurrent!;
+    return { ...m, base, gain: m.limitCurrent! - base };
+  });
+
+  return (
+    <div className="space-y-4">
+      {steps.length > 0 && (
+        <div className="w-full h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={steps} margin={{ top: 15, right: 20, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+              <XAxis dataKey="reason" stroke="hsl(var(--muted-foreground))" fontSize={10} interval={0} />
+              <YAxis unit="A" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+              <Tooltip content={<WaterfallTooltip maxSafeCurrent={maxSafeCurrent} />} cursor={{ fill: 'hsl(var(--muted) / 0.5)' }} />
+              <Bar dataKey="base" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+              <Bar dataKey="gain" stackId="waterfall" isAnimationActive={false}>
+                {steps.map((step, index) => (
+                  <Cell
+                    key={step.reason}
+                    fill={index === 0 ? 'hsl(var(--destructive))' : step.enforced ? 'hsl(var(--chart-2))' : 'hsl(var(--muted-foreground))'}
+                  />
+                ))}
+              </Bar>
+              <ReferenceLine y={maxSafeCurrent} stroke="hsl(var(--primary))" strokeDasharray="4 4" label={{ value: 'Max safe', position: 'right', fill: 'hsl(var(--primary))', fontSize: 11 }} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      <ul className="space-y-2">
+        {margins.map((m, index) => (
+          <li key={m.reason} className="flex justify-between items-center gap-4 p-3 bg-white/5 rounded-lg text-sm">
+            <div>
+              <p className="font-medium">{index + 1}. {m.reason}{!m.enforced && <span className="text-muted-foreground font-normal"> (not enforced)</span>}</p>
+              <p className="text-xs text-muted-foreground">
+                {m.value === null ? 'No equilibrium' : `${m.value.toFixed(2)} ${m.unit}`} of {m.limit} {m.unit} at max safe current
+              </p>
+            </div>
+            <p className="font-mono text-right">
+              {m.limitCurrent === null || m.margin === null
+                ? (m.boundedBy ? 'Not reached before thermal runaway' : 'Not reached')
+                : `${m.limitCurrent.toFixed(2)}A ${formatMargin(m.margin, maxSafeCurrent)}`}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
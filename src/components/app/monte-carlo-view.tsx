@@ -0,0 +1,88 @@
+"use client";
+
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import type { MonteCarloResult } from '@/lib/types';
+
+interface MonteCarloViewProps {
+  monteCarlo: MonteCarloResult;
+}
+
+const HistogramTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const bin = payload[0].payload;
+    return (
+      <div className="p-2 bg-background/80 border border-border rounded-lg shadow-lg">
+        <p className="label text-sm font-bold">{`${bin.from.toFixed(2)} – ${bin.to.toFixed(2)} A`}</p>
+        <p className="intro text-xs text-primary">{`Samples: ${bin.count}`}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+export default function MonteCarloView({ monteCarlo }: MonteCarloViewProps) {
+  const metrics = [
+    { label: 'P5', value: monteCarlo.p5 },
+    { label: 'P50', value: monteCarlo.p50 },
+    { label: 'P95', value: monteCarlo.p95 },
+    { label: 'Nominal', value: monteCarlo.nominalMaxSafeCurrent },
+  ];
+  const bins = monteCarlo.histogram.map(bin => ({ ...bin, mid: (bin.from + bin.to) / 2 }));
+  const binWidth = bins.length > 0 ? bins[0].to - bins[0].from : 1;
+  const percentiles = [
+    { label: 'P5', value: monteCarlo.p5, color: 'hsl(var(--destructive))' },
+    { label: 'P50', value: monteCarlo.p50, color: 'hsl(var(--primary))' },
+    { label: 'P95', value: monteCarlo.p95, color: 'hsl(var(--chart-2))' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {metrics.map(metric => (
+          <div key={metric.label} className="rounded-lg p-4 bg-white/5">
+            <p className="text-sm text-muted-foreground">{metric.label}</p>
+            <p className="text-xl font-bold">{metric.value.toFixed(2)} A</p>
+          </div>
+        ))}
+      </div>
+      <div className="w-full h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={bins} margin={{ top: 15, right: 20, left: 0, bottom: 5 }} barCategoryGap={1}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+            <XAxis
+              dataKey="mid"
+              type="number"
+              domain={[monteCarlo.min - binWidth / 2, monteCarlo.max + binWidth / 2]}
+              unit="A"
+              stroke="hsl(var(--muted-foreground))"
+              fontSize={12}
+              tickFormatter={(value) => value.toFixed(1)}
+            />
+            <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} allowDecimals={false} />
+            <Tooltip content={<HistogramTooltip />} cursor={{ fill: 'hsl(var(--muted) / 0.5)' }} />
+            <Bar dataKey="count" fill="hsl(var(--chart-1))" isAnimationActive={false} />
+            {percentiles.map(p => (
+              <ReferenceLine key={p.label} x={p.value} stroke={p.color} strokeDasharray="4 4" label={{ value: p.label, position: 'top', fill: p.color, fontSize: 11 }} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">Limit reached per sample</p>
+        {monteCarlo.limits.map(limit => (
+          <div key={limit.reason ?? 'none'} className="flex items-center gap-3 text-sm">
+            <span className="w-36 shrink-0">{limit.reason ?? 'None in range'}</span>
+            <div className="h-2 flex-1 rounded bg-white/5">
+              <div className="h-2 rounded bg-primary" style={{ width: `${(limit.count / monteCarlo.samples) * 100}%` }} />
+            </div>
+            <span className="w-14 text-right font-mono">{((limit.count / monteCarlo.samples) * 100).toFixed(1)}%</span>
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {monteCarlo.samples} samples, mean {monteCarlo.mean.toFixed(2)} A, σ {monteCarlo.standardDeviation.toFixed(2)} A. Seed {monteCarlo.seed} reproduces this run.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import type { OverloadResult } from '@/lib/types';
+
+interface OverloadViewProps {
+  overload: OverloadResult;
+}
+
+const formatDuration = (seconds: number) =>
+  seconds >= 3600 ? `${(seconds / 3600).toFixed(2)} h` : seconds >= 60 ? `${(seconds / 60).toFixed(1)} min` : seconds >= 1 ? `${seconds.toFixed(2)} s` : `${(seconds * 1000).toFixed(1)} ms`;
+
+const CurveTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className="p-2 bg-background/80 border border-border rounded-lg shadow-lg">
+        <p className="label text-sm font-bold">{`${point.current.toFixed(2)} A`}</p>
+        <p className="intro text-xs text-primary">{`Lasts ${formatDuration(point.duration)}`}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+export default function OverloadView({ overload }: OverloadViewProps) {
+  const metrics = [
+    { label: `Time to Limit at ${overload.current.toFixed(1)} A`, value: overload.timeToLimit !== null ? formatDuration(overload.timeToLimit) : 'Never reached' },
+    { label: 'Continuous Current', value: `${overload.continuousCurrent.toFixed(2)} A` },
+    { label: 'Cooler Time Constant', value: formatDuration(overload.coolerTimeConstant) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {metrics.map(metric => (
+          <div key={metric.label} className="rounded-lg p-4 bg-white/5">
+            <p className="text-sm text-muted-foreground">{metric.label}</p>
+            <p className="text-xl font-bold">{metric.value}</p>
+          </div>
+        ))}
+      </div>
+      {overload.curve.length > 0 ? (
+        <div className="w-full h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={overload.curve} margin={{ top: 15, right: 30, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+              {/* Allowed durations span several decades, so time runs on a log axis */}
+              <XAxis
+                dataKey="duration"
+                type="number"
+                scale="log"
+                domain={['auto', 'auto']}
+                unit="s"
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+                tickFormatter={(value) => Number(value.toPrecision(2)).toString()}
+              />
+              <YAxis dataKey="current" unit="A" domain={['auto', 'auto']} stroke="hsl(var(--muted-foreground))" fontSize={12} tickFormatter={(value) => value.toFixed(0)} />
+              <Tooltip content={<CurveTooltip />} />
+              <Line type="monotone" dataKey="current" stroke="hsl(var(--chart-1))" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+              <ReferenceLine y={overload.continuousCurrent} stroke="hsl(var(--primary))" strokeDasharray="4 4" label={{ value: 'Continuous', position: 'insideBottomRight', fill: 'hsl(var(--primary))', fontSize: 11 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">The current rating is reached before the temperature limit, so every current the device is rated for can be carried indefinitely.</p>
+      )}
+      <p className="text-sm text-muted-foreground">
+        Each overload is switched on from ambient and lasts until Tj reaches its limit. The cooler&apos;s thermal mass sets how long the slowest part of the heating takes.
+      </p>
+    </div>
+  );
+}
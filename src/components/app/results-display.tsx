@@ -1,13 +1,21 @@
 "use client";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import type { SimulationResult, AiCalculatedExpectedResultsOutput, AiOptimizationSuggestionsOutput, LiveDataPoint, AiDeepDiveStep } from "@/lib/types";
+import type { SimulationResult, AiCalculatedExpectedResultsOutput, AiOptimizationSuggestionsOutput, LiveDataPoint, AiDeepDiveStep, OptimizerResult, ThermalStack, GateDriveResult, CoolantResult } from "@/lib/types";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { CheckCircle2, AlertTriangle, Thermometer, Zap, Gauge, Lightbulb, Bot, Cpu, TrendingUp, Power, Package, ShieldAlert, BrainCircuit } from 'lucide-react';
+import { CheckCircle2, AlertTriangle, Thermometer, Zap, Gauge, Lightbulb, Bot, Cpu, TrendingUp, Power, Package, ShieldAlert, BrainCircuit, Flame, Crosshair, Square } from 'lucide-react';
 import React, { useEffect, useState } from "react";
 import LiveSimulationView from "./live-simulation-view";
 import { Button } from "../ui/button";
 import AiDeepDiveView from "./ai-deep-dive-view";
+import { Badge } from "../ui/badge";
+import SoaChart from "./soa-chart";
+import LifetimeView from "./lifetime-view";
+import MonteCarloView from "./monte-carlo-view";
+import OverloadView from "./overload-view";
+import MarginChart from "./margin-chart";
+import { parseSoaCurves } from "@/lib/parsers";
+import { currentBasisLabels, loadCurrentBasis } from "@/lib/constants";
 
 interface ResultsDisplayProps {
   isLoading: boolean;
@@ -20,6 +28,9 @@ interface ResultsDisplayProps {
   isDeepDiveRunning: boolean;
   deepDiveSteps: AiDeepDiveStep[];
   currentDeepDiveStep: number;
+  deepDiveOptimizer: OptimizerResult | null;
+  runProgress: number;
+  onStop: () => void;
 }
 
 // NEW: Add SmoothCounter component
@@ -94,6 +105,103 @@ const ResultMetric = ({
   </div>
 );
 
+// Switching times for the configured gate driver next to the datasheet values they replace
+const GateDriveSummary = ({ gateDrive, energyModel }: { gateDrive: GateDriveResult; energyModel: boolean }) => {
+  const rows = [
+    { label: 'Rise time', datasheet: gateDrive.datasheetRiseTime, effective: gateDrive.riseTime, gateCurrent: gateDrive.turnOnGateCurrent },
+    { label: 'Fall time', datasheet: gateDrive.datasheetFallTime, effective: gateDrive.fallTime, gateCurrent: gateDrive.turnOffGateCurrent },
+  ];
+
+  return (
+    <div className="rounded-lg p-4 bg-white/5 space-y-2">
+      <p className="text-sm text-muted-foreground">Gate Drive</p>
+      <div className="grid grid-cols-4 gap-2 text-xs text-muted-foreground">
+        <span />
+        <span className="text-right">Datasheet</span>
+        <span className="text-right">Your driver</span>
+        <span className="text-right">Plateau Ig</span>
+      </div>
+      {rows.map(row => (
+        <div key={row.label} className="grid grid-cols-4 gap-2 text-sm">
+          <span className="font-medium">{row.label}</span>
+          <span className="text-right text-muted-foreground">{row.datasheet.toFixed(1)} ns</span>
+          <span className="text-right font-bold">{row.effective.toFixed(1)} ns</span>
+          <span className="text-right text-muted-foreground">{row.gateCurrent.toFixed(2)} A</span>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground pt-1">
+        Gate drive power: {gateDrive.gatePowerPerDevice.toFixed(3)}W per device ({gateDrive.gateCharge.toFixed(1)} nC per cycle), {gateDrive.gatePower.toFixed(3)}W for all {gateDrive.gatedDevices} gated devices. It is dissipated in the driver and gate resistors, not the junction.
+        {energyModel && ' Switching losses come from Eon/Eoff, so the driver timing only sets the turn-off overshoot.'}
+      </p>
+    </div>
+  );
+};
+
+// Coolant temperatures across the cold plate and where the pump runs on its curve
+const CoolantSummary = ({ coolant }: { coolant: CoolantResult }) => {
+  const metrics = [
+    { label: 'Inlet', value: `${coolant.inletTemperature.toFixed(1)}°C` },
+    { label: 'Outlet', value: `${coolant.outletTemperature.toFixed(1)}°C` },
+    { label: 'Flow', value: `${coolant.flow.toFixed(2)} L/min` },
+    { label: 'Cold Plate', value: `${coolant.coldPlateRth.toFixed(3)} °C/W` },
+  ];
+  const flowLimited = coolant.flow < coolant.requestedFlow;
+
+  return (
+    <div className="rounded-lg p-4 bg-white/5 space-y-2">
+      <p className="text-sm text-muted-foreground">Coolant Loop</p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {metrics.map(metric => (
+          <div key={metric.label}>
+            <p className="text-xs text-muted-foreground">{metric.label}</p>
+            <p className="text-sm font-bold">{metric.value}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground pt-1">
+        Pump operating point: {coolant.pumpHead.toFixed(1)} kPa at {coolant.flow.toFixed(2)} L/min, {(coolant.pumpSpeed * 100).toFixed(0)}% speed, {coolant.hydraulicPower.toFixed(2)}W hydraulic.
+        {' '}{coolant.radiatorCooled ? 'The radiator holds the inlet above ambient by the heat it rejects.' : 'A chiller holds the inlet temperature.'}
+        {flowLimited && ` The pump runs out of head before the requested ${coolant.requestedFlow.toFixed(2)} L/min.`}
+      </p>
+    </div>
+  );
+};
+
+// Junction-to-ambient heat path with the temperature drop across each thermal resistance
+const ThermalLadder = ({ stack }: { stack: ThermalStack }) => {
+  const nodes = [
+    { label: 'Junction', temperature: stack.junction },
+    { label: 'Case', temperature: stack.case },
+    { label: stack.coolant ? 'Cold Plate' : 'Heatsink', temperature: stack.heatsink },
+    { label: stack.coolant && !stack.coolant.radiatorCooled ? 'Coolant Inlet' : 'Ambient', temperature: stack.ambient },
+  ];
+  const links = [
+    { label: 'Rth j-c', rth: stack.rthJC, power: stack.devicePowerLoss },
+    { label: 'Rth c-s (TIM)', rth: stack.rthCS, power: stack.devicePowerLoss },
+    { label: !stack.coolant ? 'Rth s-a' : stack.coolant.radiatorCooled ? 'Rth cold plate + radiator' : 'Rth cold plate', rth: stack.rthSA, power: stack.sinkPowerLoss },
+  ];
+
+  return (
+    <div className="rounded-lg p-4 bg-white/5 space-y-1">
+      <p className="text-sm text-muted-foreground mb-2">Thermal Stack</p>
+      {nodes.map((node, i) => (
+        <React.Fragment key={node.label}>
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">{node.label}</span>
+            <span className="font-bold text-orange-400">{node.temperature.toFixed(1)}°C</span>
+          </div>
+          {links[i] && (
+            <div className="flex items-center justify-between border-l-2 border-dashed border-orange-400/40 ml-2 pl-4 py-1 text-xs text-muted-foreground">
+              <span>{links[i].label}: {links[i].rth.toFixed(3)} °C/W · {links[i].power.toFixed(2)}W</span>
+              <span>ΔT {(node.temperature - nodes[i + 1].temperature).toFixed(1)}°C</span>
+            </div>
+          )}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
 export default function ResultsDisplay({ 
   isLoading, 
   simulationResult, 
@@ -105,7 +213,11 @@ export default function ResultsDisplay({
   isDeepDiveRunning,
   deepDiveSteps,
   currentDeepDiveStep,
+  deepDiveOptimizer,
+  runProgress,
+  onStop,
 }: ResultsDisplayProps) {
+  const currentBasis = loadCurrentBasis(formValues.topology, formValues.conductionWaveform);
 
   if (isDeepDiveRunning) {
     return (
@@ -114,6 +226,9 @@ export default function ResultsDisplay({
             currentStepIndex={currentDeepDiveStep}
             liveData={liveData}
             initialFormValues={formValues}
+            optimizer={deepDiveOptimizer}
+            runProgress={runProgress}
+            onStop={isLoading ? onStop : undefined}
         />
     )
   }
@@ -124,6 +239,9 @@ export default function ResultsDisplay({
         liveData={liveData} 
         simulationMode={formValues.simulationMode}
         maxTemperature={formValues.maxTemperature}
+        currentBasis={currentBasis}
+        runProgress={runProgress}
+        onStop={onStop}
       />
     );
   }
@@ -136,6 +254,9 @@ export default function ResultsDisplay({
           <CardDescription className="mt-2 max-w-xs mx-auto">
             The AI is getting ready to run the simulation. Please wait.
           </CardDescription>
+          <Button variant="outline" size="sm" onClick={onStop} className="mt-4">
+            <Square className="mr-2 h-4 w-4" /> Stop
+          </Button>
       </Card>
     );
   }
@@ -156,12 +277,15 @@ export default function ResultsDisplay({
 
   const failureIcons: { [key: string]: React.ElementType } = {
     Thermal: Thermometer,
+    'Thermal Runaway': Flame,
     Current: Gauge,
     Voltage: Zap,
+    SOA: Crosshair,
     'Power Dissipation': Package,
     'Cooling Budget': ShieldAlert,
   };
   const FailureIcon = simulationResult.failureReason ? failureIcons[simulationResult.failureReason] || AlertTriangle : AlertTriangle;
+  const soaCurves = formValues.soaCurves ? parseSoaCurves(formValues.soaCurves) : null;
 
   return (
     <div className="space-y-6 animate-in fade-in-0 duration-500">
@@ -186,7 +310,10 @@ export default function ResultsDisplay({
                 decimals={1}
               />
             </div>
-            <div className="text-xl text-green-300 mt-2">Amperes</div>
+            <div className="text-xl text-green-300 mt-2">Amperes ({currentBasisLabels[currentBasis]})</div>
+            {simulationResult.parallelCount && simulationResult.parallelCount > 1 && (
+              <div className="text-sm text-green-300/80 mt-1">Total for a bank of {simulationResult.parallelCount} paralleled devices</div>
+            )}
           </div>
 
           {/* UPDATED: Grid with smooth animated metrics */}
@@ -199,6 +326,16 @@ export default function ResultsDisplay({
               colorClass="text-orange-400"
               animate={true}
             />
+            {simulationResult.transient && (
+              <ResultMetric 
+                icon={Flame} 
+                label={`Peak Junction Temp (t = ${simulationResult.transient.peakTime.toFixed(2)}s)`} 
+                value={simulationResult.transient.peakTemperature} 
+                unit="°C" 
+                colorClass="text-red-400"
+                animate={true}
+              />
+            )}
             <ResultMetric 
               icon={Power} 
               label="Total Heat Generation" 
@@ -216,11 +353,57 @@ export default function ResultsDisplay({
             />
             <ResultMetric 
               icon={TrendingUp} 
-              label="Switching Loss" 
+              label={simulationResult.switchingLossModel === 'energy' ? "Switching Loss (Eon/Eoff)" : "Switching Loss (tr/tf)"} 
               value={simulationResult.powerDissipation.switching} 
               unit="W"
               animate={true}
             />
+            {!!simulationResult.powerDissipation.capacitive && (
+              <ResultMetric 
+                icon={Zap} 
+                label="of which Coss Discharge (Eoss)" 
+                value={simulationResult.powerDissipation.capacitive} 
+                unit="W"
+                animate={true}
+              />
+            )}
+            {simulationResult.peakVoltage !== undefined && (
+              <ResultMetric 
+                icon={Zap} 
+                label="Peak Switch Voltage" 
+                value={simulationResult.peakVoltage} 
+                unit="V"
+                colorClass="text-yellow-400"
+                animate={true}
+              />
+            )}
+            {(simulationResult.powerDissipation.diodeConduction > 0 || simulationResult.powerDissipation.reverseRecovery > 0) && (
+              <>
+                <ResultMetric 
+                  icon={Cpu} 
+                  label="Diode Conduction Loss" 
+                  value={simulationResult.powerDissipation.diodeConduction} 
+                  unit="W"
+                  animate={true}
+                />
+                {!!simulationResult.powerDissipation.deadTime && (
+                  <ResultMetric 
+                    icon={Cpu} 
+                    label="of which Dead-Time Conduction" 
+                    value={simulationResult.powerDissipation.deadTime} 
+                    unit="W"
+                    animate={true}
+                  />
+                )}
+                <ResultMetric 
+                  icon={TrendingUp} 
+                  label="Reverse Recovery Loss" 
+                  value={simulationResult.powerDissipation.reverseRecovery} 
+                  unit="W"
+                  animate={true}
+                />
+              </>
+            )}
             {/* NEW: Live current display if data is available */}
             {liveData.length > 0 && (
               <div className="flex items-start space-x-3 rounded-lg p-4 bg-white/5 transition-all hover:bg-white/10">
@@ -240,6 +423,45 @@ export default function ResultsDisplay({
               </div>
             )}
           </div>
+
+          {simulationResult.devices && simulationResult.devices.length > 0 && (
+            <div className="rounded-lg p-4 bg-white/5 space-y-2">
+              <p className="text-sm text-muted-foreground">Devices in Topology</p>
+              {simulationResult.devices.map((device) => (
+                <div key={device.name} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{device.name}{device.count > 1 ? ` ×${device.count}` : ''}</span>
+                    {device.name === simulationResult.limitingDevice && (
+                      <Badge variant="destructive">Limits first</Badge>
+                    )}
+                  </div>
+                  <span className="text-muted-foreground">
+                    {device.junctionTemperature.toFixed(1)}°C · {device.peakVoltage !== undefined ? `${device.peakVoltage.toFixed(1)}V · ` : ''}{device.powerLoss.toFixed(2)}W · {device.rmsCurrent.toFixed(2)}A rms · {device.avgCurrent.toFixed(2)}A avg
+                  </span>
+                  {device.parallel && device.parallel.map((member) => (
+                    <div key={member.label} className="flex w-full flex-wrap items-center justify-between gap-2 pl-4 text-xs">
+                      <span>{member.label}{member.count > 1 ? ` ×${member.count}` : ''}</span>
+                      <span className="text-muted-foreground">
+                        {(member.currentShare * 100).toFixed(1)}% share · {member.rmsCurrent.toFixed(2)}A rms · {member.junctionTemperature.toFixed(1)}°C · {member.powerLoss.toFixed(2)}W
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {simulationResult.thermalStack && (
+            <ThermalLadder stack={simulationResult.thermalStack} />
+          )}
+
+          {simulationResult.thermalStack?.coolant && (
+            <CoolantSummary coolant={simulationResult.thermalStack.coolant} />
+          )}
+
+          {simulationResult.gateDrive && (
+            <GateDriveSummary gateDrive={simulationResult.gateDrive} energyModel={simulationResult.switchingLossModel === 'energy'} />
+          )}
         </CardContent>
       </Card>
 
@@ -248,9 +470,19 @@ export default function ResultsDisplay({
            <CardHeader>
              <CardTitle>Analysis Graph</CardTitle>
              <CardDescription>
-                {formValues.simulationAlgorithm === 'iterative' 
+                {formValues.simulationMode === 'transient' && simulationResult.overload
+                    ? "Junction temperature over time after the overload is switched on."
+                    : formValues.simulationMode === 'transient'
+                    ? "Junction temperature over time for the applied load profile."
+                    : formValues.simulationAlgorithm === 'iterative' 
                     ? "Plot of the calculated thermal curve." 
-                    : "Live plot of the binary search algorithm."
+                    : formValues.simulationAlgorithm === 'binary'
+                    ? "Live plot of the binary search algorithm."
+                    : formValues.simulationAlgorithm === 'analytic'
+                    ? (simulationResult.analyticFallback
+                        ? `Binary search plot: the closed form does not apply because ${simulationResult.analyticFallback}.`
+                        : "Closed-form thermal curve up to the first limit.")
+                    : "Max safe current of the sampled parts."
                 }
              </CardDescription>
            </CardHeader>
@@ -259,11 +491,77 @@ export default function ResultsDisplay({
                 liveData={liveData} 
                 simulationMode={formValues.simulationMode}
                 maxTemperature={formValues.maxTemperature}
+                currentBasis={currentBasis}
               />
            </CardContent>
          </Card>
       )}
 
+      {simulationResult.monteCarlo && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Tolerance Analysis</CardTitle>
+            <CardDescription>Max safe current of parts drawn from the spec distributions. The headline figure is the P5 value, met by 95% of parts.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MonteCarloView monteCarlo={simulationResult.monteCarlo} />
+          </CardContent>
+        </Card>
+      )}
+
+      {simulationResult.overload && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Overload Duration</CardTitle>
+            <CardDescription>How long currents above the continuous limit can be carried before Tj reaches {formValues.maxTemperature}°C.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <OverloadView overload={simulationResult.overload} />
+          </CardContent>
+        </Card>
+      )}
+
+      {simulationResult.lifetime && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Power Cycling Lifetime</CardTitle>
+            <CardDescription>Rainflow-counted junction temperature swings over one pass of the load profile, with Miner&apos;s rule damage.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LifetimeView lifetime={simulationResult.lifetime} />
+          </CardContent>
+        </Card>
+      )}
+
+      {simulationResult.margins && simulationResult.margins.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Constraint Margins</CardTitle>
+            <CardDescription>The current at which each limit alone would be reached. Each bar is the headroom gained by lifting every limit to its left.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MarginChart margins={simulationResult.margins} maxSafeCurrent={simulationResult.maxSafeCurrent} />
+          </CardContent>
+        </Card>
+      )}
+
+      {soaCurves && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Safe Operating Area</CardTitle>
+            <CardDescription>
+              {simulationResult.soa
+                ? `Peak operating point against the ${simulationResult.soa.curve} curve${simulationResult.soa.pulseDuration !== null ? ` (${(simulationResult.soa.pulseDuration * 1e6).toFixed(1)}µs pulses)` : ''}, which allows ${simulationResult.soa.allowedCurrent.toFixed(2)}A at ${simulationResult.soa.voltage.toFixed(1)}V.`
+                : "Datasheet SOA boundaries on log-log axes."
+              }
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SoaChart curves={soaCurves} operatingPoint={simulationResult.soa} maxVoltage={formValues.maxVoltage} />
+          </CardContent>
+        </Card>
+      )}
+
       {aiCalculatedResults && (
         <Card>
           <CardHeader>
@@ -6,11 +6,14 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Loader2, Upload, SlidersHorizontal, Package, Thermometer, Zap, ShieldAlert, Search, Info, Bot } from 'lucide-react';
 import React from 'react';
-import { coolingMethods, predefinedTransistors, transistorTypes } from '@/lib/constants';
+import { conductionWaveforms, coolingMethods, predefinedTransistors, switchingModes, thermalInterfaces, topologies, transistorTypes } from '@/lib/constants';
+import { parseMissionProfile, soaCsvToText } from '@/lib/parsers';
+import { coldPlateRth, pumpOperatingPoint } from '@/lib/liquid-cooling';
 import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip';
 import { AnimatePresence, motion } from 'framer-motion';
@@ -24,6 +27,13 @@ interface SimulationFormProps {
   setDatasheetFile: (file: File | null) => void;
 }
 
+const toleranceRows = [
+    { name: 'conduction', label: (mosfet: boolean) => (mosfet ? 'Rds(on)' : 'Vce(sat)'), hasMax: true },
+    { name: 'rthJC', label: () => 'Rth(j-c)', hasMax: true },
+    { name: 'coolerRth', label: () => 'Heatsink Rth(s-a)', hasMax: true },
+    { name: 'switching', label: () => 'Switching Times / Energies', hasMax: false },
+];
+
 const isMosfetType = (type: string) => {
     return type.includes('MOSFET') || type.includes('GaN');
 };
@@ -32,6 +42,7 @@ const endConditionDescriptions: Record<string, string> = {
     ftf: "Default and most realistic mode. Stops when any limit (Temp, Current, Cooling Budget, etc.) is hit.",
     temp: "Isolates for thermal performance. Stops only when the Max Junction Temp is exceeded.",
     budget: "Isolates for cooler performance. Stops only when power loss exceeds the cooling budget.",
+    transient: "Simulates junction temperature over time for a step, pulsed, mission-profile or overload load using the Zth network and cooler thermal mass.",
 };
 
 const textAnimation = {
@@ -56,9 +67,23 @@ const charAnimation = {
 
 export default function SimulationForm({ form, onSubmit, isPending, onTransistorSelect, onDatasheetLookup, setDatasheetFile }: SimulationFormProps) {
     const selectedCoolingMethod = coolingMethods.find(m => m.value === form.watch('coolingMethod'));
+    const selectedInterface = thermalInterfaces.find(t => t.value === form.watch('thermalInterface'));
+    const liquidLoop = selectedCoolingMethod?.liquid;
+    const coolantFlow = form.watch('coolantFlow');
+    const loopPump = liquidLoop && pumpOperatingPoint(liquidLoop, Number(coolantFlow) || liquidLoop.nominalFlow);
     const currentTransistorType = form.watch('transistorType');
     const simulationMode = form.watch('simulationMode');
     const simulationAlgorithm = form.watch('simulationAlgorithm');
+    const loadProfile = form.watch('loadProfile');
+    const topology = form.watch('topology');
+    const parallelCount = form.watch('parallelCount');
+    const selectedTopology = topologies.find(t => t.value === topology);
+    const switchingMode = form.watch('switchingMode');
+    const selectedSwitchingMode = switchingModes.find(m => m.value === switchingMode);
+    const isSinePwmTopology = ['half-bridge', 'full-bridge', 'three-phase-inverter'].includes(topology);
+    const conductionWaveform = form.watch('conductionWaveform');
+    const selectedWaveform = conductionWaveforms.find(w => w.value === conductionWaveform);
+    const isPulsedWaveform = conductionWaveform === 'pwm' || conductionWaveform === 'trapezoid';
 
   return (
     <Form {...form}>
@@ -201,6 +226,13 @@ export default function SimulationForm({ form, onSubmit, isPending, onTransistor
                               </FormItem>
                           )} />
                       )}
+                      <FormField control={form.control} name="tempCoefficient" render={({ field }) => (
+                          <FormItem>
+                              <FormLabel>{isMosfetType(currentTransistorType) ? 'RDS(on)' : 'Vce(sat)'} Temp. Coeff. (%/°C)</FormLabel>
+                              <FormControl><Input type="number" step="any" placeholder="e.g., 0.67" {...field} value={field.value ?? ''} /></FormControl>
+                              <FormMessage />
+                          </FormItem>
+                      )} />
                       <FormField control={form.control} name="rthJC" render={({ field }) => (
                           <FormItem>
                               <FormLabel>Rth (j-c) (°C/W)</FormLabel>
@@ -251,6 +283,188 @@ export default function SimulationForm({ form, onSubmit, isPending, onTransistor
                         </FormItem>
                       )} />
                     </div>
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">Switching Energies (Optional)</p>
+                      <p className="text-xs text-muted-foreground">For IGBTs and SiC parts. When given, these replace the rise/fall time estimate. Eoss is scaled from the same test voltage.</p>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                      <FormField control={form.control} name="eon" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Eon (µJ)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 850" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="eoff" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Eoff (µJ)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 620" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="erec" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Erec (µJ)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 310" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="eoss" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Eoss (µJ)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 7" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="energyRefVoltage" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Test Voltage (V)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 400" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="energyRefCurrent" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Test Current (A)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 40" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="energyRefTemperature" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Test Temp (°C)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 25" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">Gate Charge (Optional)</p>
+                      <p className="text-xs text-muted-foreground">With a gate driver defined under the converter settings, these replace the datasheet rise/fall times with ones for your circuit.</p>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                      <FormField control={form.control} name="qg" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Qg (nC)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 63" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="qgs" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Qgs (nC)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 14" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="qgd" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Qgd (nC)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 23" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="plateauVoltage" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Plateau (V)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 5.5" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="gateResistance" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Rg int. (&#8486;)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 1.5" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="ciss" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Ciss (pF)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 1470" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="coss" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Coss (pF)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 360" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="crss" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Crss (pF)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 88" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">Complementary Diode (Optional)</p>
+                      <p className="text-xs text-muted-foreground">The opposite switch's body diode in bridges, or the freewheeling diode in DC switch, buck and boost designs. GaN FETs have no body diode: enter only their reverse conduction voltage.</p>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                      <FormField control={form.control} name="diodeVf" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Vf (V)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 1.3" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="diodeRd" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>rd (m&#8486;)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 8" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="qrr" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Qrr (nC)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 170" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="trr" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>trr (ns)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 63" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="reverseConductionVoltage" render={({ field }) => (
+                        <FormItem className="col-span-2">
+                          <FormLabel>Reverse Conduction (V)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 2.5 (GaN)" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                    </div>
+                    <FormField control={form.control} name="zthFoster" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Zth (j-c) Foster Network (Optional)</FormLabel>
+                        <FormControl><Input placeholder="e.g., 0.3:0.0005, 1.2:0.01" {...field} value={field.value ?? ''} /></FormControl>
+                        <FormDescription>R:&tau; pairs in °C/W and seconds from the datasheet transient thermal impedance fit.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                    <FormField control={form.control} name="soaCurves" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Safe Operating Area (Optional)</FormLabel>
+                        <FormControl><Textarea rows={3} placeholder={"e.g., 100us = 1:150, 55:40\nDC = 1:49, 55:2"} {...field} value={field.value ?? ''} /></FormControl>
+                        <Input
+                          type="file"
+                          accept=".csv"
+                          onChange={async (e) => {
+                            const file = e.target.files?.[0];
+                            if (file) field.onChange(soaCsvToText(await file.text()));
+                          }}
+                        />
+                        <FormDescription>One curve per line as V:I points for each pulse width plus a DC line, or import a "pulse width,voltage,current" CSV.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
                   </div>
                 </AccordionContent>
               </AccordionItem>
@@ -310,10 +524,297 @@ export default function SimulationForm({ form, onSubmit, isPending, onTransistor
                     ))}
                   </SelectContent>
                 </Select>
-                  {selectedCoolingMethod && <FormDescription>Thermal Resistance (Case-to-Ambient): {selectedCoolingMethod.thermalResistance} °C/W</FormDescription>}
+                  {selectedCoolingMethod && <FormDescription>Thermal Resistance (Sink-to-Ambient): {selectedCoolingMethod.thermalResistance} °C/W{simulationMode === 'transient' && `, Thermal Mass: ${selectedCoolingMethod.thermalCapacitance} J/°C (τ = ${(selectedCoolingMethod.thermalResistance * selectedCoolingMethod.thermalCapacitance).toFixed(0)} s)`}</FormDescription>}
+                <FormMessage />
+              </FormItem>
+            )} />
+            {liquidLoop && loopPump && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <FormField control={form.control} name="coolantFlow" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Coolant Flow (L/min)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder={`Nominal ${liquidLoop.nominalFlow}`} {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                    )} />
+                    <FormField control={form.control} name="coolantInletTemperature" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Coolant Inlet (°C)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="Set by the radiator" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                    )} />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Cold plate {coldPlateRth(liquidLoop, loopPump.flow).toFixed(3)} °C/W at {loopPump.flow.toFixed(2)} L/min, pump at {(loopPump.speed * 100).toFixed(0)}% speed.
+                  {loopPump.speed >= 1 && ' The pump cannot push more flow through this loop.'}
+                  {' '}The radiator rejects {liquidLoop.radiatorCapacity} W/°C above ambient; set an inlet temperature for a chiller-held loop.
+                </p>
+              </div>
+            )}
+            <FormField control={form.control} name="thermalInterface" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Thermal Interface (Case-to-Sink)</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an interface material" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries({
+                        'Greases & Pads': thermalInterfaces.filter(t => !t.insulating),
+                        'Insulating': thermalInterfaces.filter(t => t.insulating),
+                    }).map(([group, options]) => (
+                        <SelectGroup key={group}>
+                            <SelectLabel>{group}</SelectLabel>
+                            {options.map(tim => (
+                                <SelectItem key={tim.value} value={tim.value}>
+                                    <div className="flex justify-between w-full">
+                                        <span>{tim.name}</span>
+                                        {tim.thermalConductivity > 0 && <span className="text-muted-foreground ml-4">{tim.thermalConductivity} W/m·K</span>}
+                                    </div>
+                                </SelectItem>
+                            ))}
+                        </SelectGroup>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )} />
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <FormField control={form.control} name="timThickness" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>TIM Thickness (mm)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder={selectedInterface && selectedInterface.thickness > 0 ? `Typical ${selectedInterface.thickness}` : 'n/a'} {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+                <FormField control={form.control} name="contactArea" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Contact Area (mm²)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder="e.g., 150 (TO-220)" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+                <FormField control={form.control} name="sinkDeviceCount" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Devices on Heatsink</FormLabel>
+                      <FormControl><Input type="number" step="1" placeholder="Defaults to parallel count" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+            </div>
+            <FormField control={form.control} name="topology" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Converter Topology</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a topology" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {topologies.map(t => (
+                      <SelectItem key={t.value} value={t.value}>{t.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedTopology && <FormDescription>{selectedTopology.description}</FormDescription>}
                 <FormMessage />
               </FormItem>
             )} />
+            {topology === 'dc-switch' && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <FormField control={form.control} name="conductionWaveform" render={({ field }) => (
+                      <FormItem className={isPulsedWaveform ? 'sm:col-span-2' : 'sm:col-span-3'}>
+                        <FormLabel>Conduction Waveform</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a waveform" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {conductionWaveforms.map(w => (
+                              <SelectItem key={w.value} value={w.value}>{w.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {selectedWaveform && <FormDescription>{selectedWaveform.description}</FormDescription>}
+                        <FormMessage />
+                      </FormItem>
+                  )} />
+                  {isPulsedWaveform && (
+                    <FormField control={form.control} name="dutyCycle" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Duty Cycle (%)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="Defaults to Vout / Vin" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                    )} />
+                  )}
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField control={form.control} name="inputVoltage" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>DC Bus Voltage (V)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder="Defaults to max voltage" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+                <FormField control={form.control} name="strayInductance" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Loop Stray Inductance (nH)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder="e.g., 20" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormDescription>Adds L&middot;di/dt overshoot over the fall time at turn-off.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+                <FormField control={form.control} name="voltageDerating" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Voltage Derating (% of max)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder="e.g., 80" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormDescription>Peak switch voltage allowed, as a share of the rated max voltage.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+                {isSinePwmTopology ? (
+                  <>
+                    <FormField control={form.control} name="modulationIndex" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Modulation Index</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 0.8" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                    )} />
+                    <FormField control={form.control} name="powerFactor" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Power Factor (cos &phi;)</FormLabel>
+                          <FormControl><Input type="number" step="any" placeholder="e.g., 1" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                    )} />
+                  </>
+                ) : (
+                  <FormField control={form.control} name="outputVoltage" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Output Voltage (V)</FormLabel>
+                        <FormControl><Input type="number" step="any" placeholder={topology === 'boost' ? 'Defaults to 2 × Vbus' : 'Defaults to Vbus / 2'} {...field} value={field.value ?? ''} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                  )} />
+                )}
+                <FormField control={form.control} name="rippleRatio" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Current Ripple (% p-p)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder="e.g., 30" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <FormField control={form.control} name="switchingMode" render={({ field }) => (
+                    <FormItem className={switchingMode === 'partial-zvs' ? undefined : 'sm:col-span-2'}>
+                      <FormLabel>Switching Mode</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a switching mode" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {switchingModes.map(m => (
+                            <SelectItem key={m.value} value={m.value}>{m.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+                {switchingMode === 'partial-zvs' && (
+                  <FormField control={form.control} name="zvsSwing" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>ZVS Swing (%)</FormLabel>
+                        <FormControl><Input type="number" step="any" placeholder="e.g., 70" {...field} value={field.value ?? ''} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                  )} />
+                )}
+                <FormField control={form.control} name="deadTime" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Dead Time (ns)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder="e.g., 50" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+            </div>
+            {selectedSwitchingMode && (
+              <p className="text-sm text-muted-foreground">{selectedSwitchingMode.description} Dead-time losses apply to the synchronous rectifier and to bridge switches without a diode model.</p>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <FormField control={form.control} name="parallelCount" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Devices in Parallel</FormLabel>
+                      <FormControl><Input type="number" step="1" placeholder="e.g., 1" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+                <FormField control={form.control} name="rdsOnTolerance" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{isMosfetType(currentTransistorType) ? 'Rds(on)' : 'Vce(sat)'} Spread (± %)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder="e.g., 10" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+                <FormField control={form.control} name="vthSpread" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Vth Spread (V)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder="e.g., 0.5" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Gate Driver (Optional)</p>
+              <p className="text-xs text-muted-foreground">Derives the switching times and gate drive power from the device&apos;s gate charge. Turn-off assumes the driver pulls the gate to 0V.</p>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <FormField control={form.control} name="driveVoltage" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Drive Voltage (V)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder="e.g., 12" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+                <FormField control={form.control} name="driverSourceCurrent" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Source Current (A)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder="e.g., 2" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+                <FormField control={form.control} name="driverSinkCurrent" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sink Current (A)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder="e.g., 4" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+                <FormField control={form.control} name="externalGateResistance" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>External Rg (&#8486;)</FormLabel>
+                      <FormControl><Input type="number" step="any" placeholder="e.g., 10" {...field} value={field.value ?? ''} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+            </div>
+            {parallelCount > 1 && (
+              <p className="text-sm text-muted-foreground">The analyzer sweeps the bank&apos;s total current and limits it by the device with the lowest on-resistance and threshold, which takes the largest share.</p>
+            )}
           </CardContent>
         </Card>
 
@@ -329,7 +830,7 @@ export default function SimulationForm({ form, onSubmit, isPending, onTransistor
                     render={({ field }) => (
                         <FormItem>
                            <FormLabel>Algorithm</FormLabel>
-                            <RadioGroup onValueChange={field.onChange} defaultValue={field.value} className="flex space-x-4">
+                            <RadioGroup onValueChange={field.onChange} defaultValue={field.value} className="flex flex-wrap gap-x-4 gap-y-2">
                                <FormItem className="flex items-center space-x-2 space-y-0">
                                    <FormControl><RadioGroupItem value="iterative" id="iterative" /></FormControl>
                                    <FormLabel htmlFor="iterative" className="font-normal cursor-pointer">Iterative</FormLabel>
@@ -338,14 +839,27 @@ export default function SimulationForm({ form, onSubmit, isPending, onTransistor
                                    <FormControl><RadioGroupItem value="binary" id="binary" /></FormControl>
                                    <FormLabel htmlFor="binary" className="font-normal cursor-pointer">Binary Search</FormLabel>
                                </FormItem>
+                               <FormItem className="flex items-center space-x-2 space-y-0">
+                                   <FormControl><RadioGroupItem value="analytic" id="analytic" /></FormControl>
+                                   <FormLabel htmlFor="analytic" className="font-normal cursor-pointer">Analytic</FormLabel>
+                               </FormItem>
+                               <FormItem className="flex items-center space-x-2 space-y-0">
+                                   <FormControl><RadioGroupItem value="monte-carlo" id="monte-carlo" /></FormControl>
+                                   <FormLabel htmlFor="monte-carlo" className="font-normal cursor-pointer">Monte Carlo</FormLabel>
+                               </FormItem>
                             </RadioGroup>
                              <FormDescription className="flex items-center gap-1.5 pt-1">
                                 <Info className="h-3 w-3" />
                                 {simulationAlgorithm === 'iterative' 
                                     ? "Provides a live visualization of the thermal curve."
-                                    : "Quickly finds the limit with a 'go-high, go-low' animated view."
+                                    : simulationAlgorithm === 'binary'
+                                    ? "Quickly finds the limit with a 'go-high, go-low' animated view."
+                                    : simulationAlgorithm === 'analytic'
+                                    ? "Solves every limit in closed form. Paralleled banks, SOA curves and diode reverse recovery fall back to binary search."
+                                    : "Binary searches thousands of parts drawn from the spec tolerances and reports the spread."
                                 }
                             </FormDescription>
+                            <FormMessage />
                         </FormItem>
                     )}
                 />
@@ -372,6 +886,99 @@ export default function SimulationForm({ form, onSubmit, isPending, onTransistor
                         />
                     </motion.div>
                 )}
+                {(simulationAlgorithm === 'binary' || simulationAlgorithm === 'analytic') && (
+                     <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        transition={{ duration: 0.3 }}
+                        className="grid grid-cols-2 gap-4"
+                    >
+                        <FormField control={form.control} name="binaryTolerance" render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Tolerance (A)</FormLabel>
+                                <FormControl><Input type="number" step="any" placeholder="e.g., 0.01" {...field} value={field.value ?? ''} /></FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )} />
+                        <FormField control={form.control} name="binaryMaxIterations" render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Max Iterations</FormLabel>
+                                <FormControl><Input type="number" step="1" placeholder="e.g., 40" {...field} value={field.value ?? ''} /></FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )} />
+                        {simulationAlgorithm === 'analytic' && (
+                            <p className="col-span-2 text-sm text-muted-foreground">Used only when the analytic solver falls back to binary search.</p>
+                        )}
+                    </motion.div>
+                )}
+                {simulationAlgorithm === 'monte-carlo' && (
+                     <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        transition={{ duration: 0.3 }}
+                        className="space-y-4"
+                    >
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <FormField control={form.control} name="monteCarloSamples" render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Samples</FormLabel>
+                                    <FormControl><Input type="number" step="1" placeholder="e.g., 1000" {...field} value={field.value ?? ''} /></FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )} />
+                            <FormField control={form.control} name="monteCarloSeed" render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Seed (optional)</FormLabel>
+                                    <FormControl><Input type="number" step="1" placeholder="Random" {...field} value={field.value ?? ''} /></FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )} />
+                        </div>
+                        {toleranceRows.map(row => (
+                            <div key={row.name} className="grid grid-cols-3 gap-4 items-end">
+                                {row.hasMax ? (
+                                    <FormField control={form.control} name={`tolerances.${row.name}.max`} render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>{row.label(isMosfetType(currentTransistorType))} Max</FormLabel>
+                                            <FormControl><Input type="number" step="any" placeholder="Datasheet max" {...field} value={field.value ?? ''} /></FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )} />
+                                ) : (
+                                    <p className="text-sm font-medium pb-2">{row.label(isMosfetType(currentTransistorType))}</p>
+                                )}
+                                <FormField control={form.control} name={`tolerances.${row.name}.percent`} render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Spread (± %)</FormLabel>
+                                        <FormControl><Input type="number" step="any" placeholder="e.g., 10" {...field} value={field.value ?? ''} /></FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )} />
+                                <FormField control={form.control} name={`tolerances.${row.name}.shape`} render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Distribution</FormLabel>
+                                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select a distribution" />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                <SelectItem value="normal">Normal</SelectItem>
+                                                <SelectItem value="uniform">Uniform</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage />
+                                    </FormItem>
+                                )} />
+                            </div>
+                        ))}
+                        <p className="text-sm text-muted-foreground">A max value takes precedence over the ± % spread. Normal spreads place the max at 3σ above typical; uniform spreads treat it as the edge of the range.</p>
+                    </motion.div>
+                )}
                 </AnimatePresence>
 
                  <FormField
@@ -380,7 +987,7 @@ export default function SimulationForm({ form, onSubmit, isPending, onTransistor
                     render={({ field }) => (
                        <FormItem>
                             <FormLabel>End Condition</FormLabel>
-                            <RadioGroup onValueChange={field.onChange} defaultValue={field.value} className="grid grid-cols-3 gap-x-2 gap-y-2">
+                            <RadioGroup onValueChange={field.onChange} defaultValue={field.value} className="grid grid-cols-2 sm:grid-cols-4 gap-x-2 gap-y-2">
                                <FormItem className="flex flex-col items-center space-y-2">
                                    <FormLabel htmlFor="ftf" className="font-normal cursor-pointer text-xs whitespace-nowrap">First-To-Fail</FormLabel>
                                    <FormControl>
@@ -399,6 +1006,12 @@ export default function SimulationForm({ form, onSubmit, isPending, onTransistor
                                        <RadioGroupItem value="budget" id="budget" />
                                    </FormControl>
                                </FormItem>
+                               <FormItem className="flex flex-col items-center space-y-2">
+                                    <FormLabel htmlFor="transient" className="font-normal cursor-pointer text-xs whitespace-nowrap">Transient</FormLabel>
+                                   <FormControl>
+                                       <RadioGroupItem value="transient" id="transient" />
+                                   </FormControl>
+                               </FormItem>
                             </RadioGroup>
                        </FormItem>
                     )}
@@ -447,6 +1060,172 @@ export default function SimulationForm({ form, onSubmit, isPending, onTransistor
                         )} />
                     </motion.div>
                 )}
+
+                 {simulationMode === 'transient' && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        transition={{ duration: 0.3 }}
+                        className="space-y-4"
+                    >
+                        <FormField control={form.control} name="loadProfile" render={({ field }) => (
+                            <FormItem className="mt-4">
+                                <FormLabel>Load Profile</FormLabel>
+                                <RadioGroup onValueChange={field.onChange} defaultValue={field.value} className="flex flex-wrap gap-x-4 gap-y-2">
+                                    <FormItem className="flex items-center space-x-2 space-y-0">
+                                        <FormControl><RadioGroupItem value="pulse" id="pulse" /></FormControl>
+                                        <FormLabel htmlFor="pulse" className="font-normal cursor-pointer">Pulse Train</FormLabel>
+                                    </FormItem>
+                                    <FormItem className="flex items-center space-x-2 space-y-0">
+                                        <FormControl><RadioGroupItem value="step" id="step" /></FormControl>
+                                        <FormLabel htmlFor="step" className="font-normal cursor-pointer">Step Load</FormLabel>
+                                    </FormItem>
+                                    <FormItem className="flex items-center space-x-2 space-y-0">
+                                        <FormControl><RadioGroupItem value="mission" id="mission" /></FormControl>
+                                        <FormLabel htmlFor="mission" className="font-normal cursor-pointer">Mission Profile</FormLabel>
+                                    </FormItem>
+                                    <FormItem className="flex items-center space-x-2 space-y-0">
+                                        <FormControl><RadioGroupItem value="overload" id="overload" /></FormControl>
+                                        <FormLabel htmlFor="overload" className="font-normal cursor-pointer">Overload</FormLabel>
+                                    </FormItem>
+                                </RadioGroup>
+                                {loadProfile === 'overload' && (
+                                    <FormDescription>Switches the load current on from ambient and reports how long it lasts before Tj reaches its limit, with the allowed duration of every current above the continuous limit.</FormDescription>
+                                )}
+                            </FormItem>
+                        )} />
+                        {loadProfile === 'mission' && (
+                            <FormField control={form.control} name="missionProfile" render={({ field }) => {
+                                const profile = field.value ? parseMissionProfile(field.value) : null;
+                                return (
+                                    <FormItem>
+                                        <FormLabel>Mission Profile CSV</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="file"
+                                                accept=".csv"
+                                                onChange={async (e) => {
+                                                    const file = e.target.files?.[0];
+                                                    field.onChange(file ? await file.text() : '');
+                                                }}
+                                            />
+                                        </FormControl>
+                                        <FormDescription>
+                                            {profile
+                                                ? `${profile.length} rows over ${(profile[profile.length - 1].time - profile[0].time).toFixed(1)}s, peaking at ${Math.max(...profile.map(row => row.current)).toFixed(1)}A.`
+                                                : 'Rows of time (s), current (A), ambient (°C). Leave ambient empty to use the ambient temperature above.'}
+                                        </FormDescription>
+                                        <FormMessage />
+                                    </FormItem>
+                                );
+                            }} />
+                        )}
+                        {loadProfile !== 'overload' && (
+                        <FormField control={form.control} name="lifetimeModel" render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Power Cycling Lifetime Model</FormLabel>
+                                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                    <FormControl>
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Select a lifetime model" />
+                                        </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                        <SelectItem value="lesit">LESIT (&Delta;Tj and Tj,mean)</SelectItem>
+                                        <SelectItem value="coffin-manson">Coffin-Manson (&Delta;Tj only)</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                            </FormItem>
+                        )} />
+                        )}
+                        {loadProfile !== 'mission' && (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <FormField control={form.control} name="pulseCurrent" render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>{loadProfile === 'overload' ? 'Overload Current (A)' : 'Load Current (A)'}</FormLabel>
+                                    <FormControl><Input type="number" step="any" placeholder="e.g., 40" {...field} value={field.value ?? ''} /></FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )} />
+                            {loadProfile !== 'overload' && (
+                            <FormField control={form.control} name="transientDuration" render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Duration (s)</FormLabel>
+                                    <FormControl><Input type="number" step="any" placeholder="e.g., 60" {...field} value={field.value ?? ''} /></FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )} />
+                            )}
+                            {loadProfile === 'pulse' && (
+                                <>
+                                    <FormField control={form.control} name="pulseWidth" render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Pulse Width (ms)</FormLabel>
+                                            <FormControl><Input type="number" step="any" placeholder="e.g., 10" {...field} value={field.value ?? ''} /></FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )} />
+                                    <FormField control={form.control} name="pulsePeriod" render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Pulse Period (ms)</FormLabel>
+                                            <FormControl><Input type="number" step="any" placeholder="e.g., 100" {...field} value={field.value ?? ''} /></FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )} />
+                                </>
+                            )}
+                        </div>
+                        )}
+                    </motion.div>
+                )}
+
+                <Accordion type="single" collapsible className="w-full">
+                  <AccordionItem value="optimizer">
+                    <AccordionTrigger>
+                      <div className='flex items-center gap-2'>
+                        <Bot className='h-4 w-4' />
+                        Deep Dive Optimizer
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      <div className="space-y-4 pt-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <FormField control={form.control} name="optimizerMinFrequency" render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Min Frequency (kHz)</FormLabel>
+                                    <FormControl><Input type="number" step="any" placeholder="e.g., 10" {...field} value={field.value ?? ''} /></FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )} />
+                            <FormField control={form.control} name="optimizerMaxFrequency" render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Max Frequency (kHz)</FormLabel>
+                                    <FormControl><Input type="number" step="any" placeholder="e.g., 200" {...field} value={field.value ?? ''} /></FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )} />
+                            <FormField control={form.control} name="costWeight" render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Cost Weight (0-1)</FormLabel>
+                                    <FormControl><Input type="number" step="0.05" placeholder="e.g., 0.2" {...field} value={field.value ?? ''} /></FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )} />
+                            <FormField control={form.control} name="sizeWeight" render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Size Weight (0-1)</FormLabel>
+                                    <FormControl><Input type="number" step="0.05" placeholder="e.g., 0.2" {...field} value={field.value ?? ''} /></FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )} />
+                        </div>
+                        <p className="text-sm text-muted-foreground">The deep dive simulates every cooling method across this frequency range and picks the highest max safe current, less the weighted cooler cost and size.</p>
+                      </div>
+                    </AccordionContent>
+                  </AccordionItem>
+                </Accordion>
             </CardContent>
         </Card>
 
@@ -0,0 +1,90 @@
+"use client";
+
+import React from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import type { SoaCheck, SoaCurve } from '@/lib/types';
+
+interface SoaChartProps {
+  curves: SoaCurve[];
+  operatingPoint?: SoaCheck;
+  maxVoltage: number;
+}
+
+const CURVE_COLORS = ['--chart-1', '--chart-2', '--chart-3', '--chart-4', '--chart-5'];
+
+const CustomTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className="p-2 bg-background/80 border border-border rounded-lg shadow-lg">
+        <p className="label text-sm font-bold">{payload[0].name}</p>
+        <p className="intro text-xs text-primary">{`Voltage: ${point.voltage.toFixed(1)} V`}</p>
+        <p className="intro text-xs text-red-400">{`Current: ${point.current.toFixed(2)} A`}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+// Datasheet SOA boundaries on log-log axes with the simulated operating point
+export default function SoaChart({ curves, operatingPoint, maxVoltage }: SoaChartProps) {
+  const allPoints = curves.flatMap(curve => curve.points).concat(operatingPoint ? [operatingPoint] : []);
+  const minVoltage = Math.min(...allPoints.map(p => p.voltage));
+  const minCurrent = Math.min(...allPoints.map(p => p.current).filter(i => i > 0));
+  const maxCurrent = Math.max(...allPoints.map(p => p.current));
+  const logFloor = (value: number) => Math.pow(10, Math.floor(Math.log10(value)));
+  const logCeil = (value: number) => Math.pow(10, Math.ceil(Math.log10(value)));
+
+  return (
+    <div className="w-full h-72">
+      <ResponsiveContainer width="100%" height="100%">
+        <ScatterChart margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+          <XAxis
+            dataKey="voltage"
+            type="number"
+            scale="log"
+            domain={[logFloor(minVoltage), logCeil(Math.max(maxVoltage, ...allPoints.map(p => p.voltage)))]}
+            allowDataOverflow
+            unit="V"
+            stroke="hsl(var(--muted-foreground))"
+            fontSize={12}
+          />
+          <YAxis
+            dataKey="current"
+            type="number"
+            scale="log"
+            domain={[logFloor(minCurrent), logCeil(maxCurrent)]}
+            allowDataOverflow
+            unit="A"
+            stroke="hsl(var(--muted-foreground))"
+            fontSize={12}
+          />
+          <Tooltip content={<CustomTooltip />} />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <ReferenceLine x={maxVoltage} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+          {curves.map((curve, index) => (
+            <Scatter
+              key={curve.label}
+              name={curve.label}
+              data={curve.points}
+              fill={`hsl(var(${CURVE_COLORS[index % CURVE_COLORS.length]}))`}
+              line
+              shape="circle"
+              isAnimationActive={false}
+            />
+          ))}
+          {operatingPoint && (
+            <Scatter
+              name="Operating point"
+              data={[operatingPoint]}
+              fill="hsl(var(--destructive))"
+              shape="diamond"
+              isAnimationActive={false}
+            />
+          )}
+        </ScatterChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Grid3x3 } from 'lucide-react';
+import { coolingMethods, sweepParameters } from '@/lib/constants';
+import type { SimulationResult, SweepCell, SweepResult } from '@/lib/types';
+
+export interface SweepAxisInput {
+  parameter: string;
+  from: number;
+  to: number;
+  steps: number;
+}
+
+interface SweepViewProps {
+  onRunSweep: (x: SweepAxisInput, y: SweepAxisInput) => void;
+  onSelectCell: (cell: SweepCell) => void;
+  isSweeping: boolean;
+  progress: number;
+  sweepResult: SweepResult | null;
+}
+
+const MAX_STEPS = 20;
+
+const reasonCodes: Record<NonNullable<SimulationResult['failureReason']>, string> = {
+  'Thermal': 'T',
+  'Thermal Runaway': 'TR',
+  'Voltage': 'V',
+  'SOA': 'SOA',
+  'Current': 'I',
+  'Power Dissipation': 'P',
+  'Cooling Budget': 'CB',
+};
+
+const parameterInfo = (parameter: string) => sweepParameters.find(p => p.value === parameter);
+
+const formatAxisValue = (parameter: string, value: number | string) => {
+  if (parameter === 'coolingMethod') return coolingMethods.find(c => c.value === value)?.name ?? String(value);
+  return Number((value as number).toPrecision(3)).toString();
+};
+
+const AxisControls = ({ title, axis, onChange }: { title: string; axis: SweepAxisInput; onChange: (axis: SweepAxisInput) => void }) => {
+  const isCategorical = axis.parameter === 'coolingMethod';
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{title}</p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <div className="col-span-2 sm:col-span-1 space-y-2">
+          <Label>Parameter</Label>
+          <Select value={axis.parameter} onValueChange={parameter => onChange({ ...axis, parameter })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {sweepParameters.map(p => (
+                <SelectItem key={p.value} value={p.value}>{p.name}{p.unit && ` (${p.unit})`}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {isCategorical ? (
+          <p className="col-span-2 sm:col-span-3 text-sm text-muted-foreground self-end pb-2">Steps through all {coolingMethods.length} cooling methods.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Input type="number" step="any" value={axis.from} onChange={e => onChange({ ...axis, from: parseFloat(e.target.value) })} />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Input type="number" step="any" value={axis.to} onChange={e => onChange({ ...axis, to: parseFloat(e.target.value) })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Steps</Label>
+              <Input type="number" step="1" min={2} max={MAX_STEPS} value={axis.steps} onChange={e => onChange({ ...axis, steps: parseInt(e.target.value, 10) })} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Colors a cell from red (lowest max safe current in the grid) to green (highest)
+const cellColor = (value: number, min: number, max: number) => {
+  const t = max > min ? (value - min) / (max - min) : 1;
+  return `hsl(${(t * 120).toFixed(0)} 65% 35%)`;
+};
+
+const Heatmap = ({ sweepResult, onSelectCell }: { sweepResult: SweepResult; onSelectCell: (cell: SweepCell) => void }) => {
+  const { x, y, cells } = sweepResult;
+  const currents = cells.map(cell => cell.maxSafeCurrent);
+  const min = Math.min(...currents);
+  const max = Math.max(...currents);
+  const xInfo = parameterInfo(x.parameter);
+  const yInfo = parameterInfo(y.parameter);
+  // Rows are stored along increasing y; draw the last one on top
+  const rows = y.values.map((_, row) => cells.slice(row * x.values.length, (row + 1) * x.values.length)).reverse();
+  const reasons = Array.from(new Set(cells.map(cell => cell.failureReason)));
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <div className="grid gap-1 min-w-max" style={{ gridTemplateColumns: `auto repeat(${x.values.length}, minmax(3.5rem, 1fr))` }}>
+          {rows.map((rowCells, index) => (
+            <React.Fragment key={index}>
+              <div className="text-xs text-muted-foreground pr-2 flex items-center justify-end">{formatAxisValue(y.parameter, rowCells[0].y)}</div>
+              {rowCells.map(cell => (
+                <button
+                  key={`${cell.x}-${cell.y}`}
+                  type="button"
+                  onClick={() => onSelectCell(cell)}
+                  title={`${xInfo?.name}: ${formatAxisValue(x.parameter, cell.x)}, ${yInfo?.name}: ${formatAxisValue(y.parameter, cell.y)} - ${cell.maxSafeCurrent.toFixed(2)} A (${cell.failureReason ?? 'no limit reached'})`}
+                  className="rounded p-1 text-center text-white hover:ring-2 hover:ring-primary transition"
+                  style={{ backgroundColor: cellColor(cell.maxSafeCurrent, min, max) }}
+                >
+                  <span className="block text-sm font-bold">{cell.maxSafeCurrent.toFixed(1)}</span>
+                  <span className="block text-[10px] opacity-80">{cell.failureReason ? reasonCodes[cell.failureReason] : '-'}</span>
+                </button>
+              ))}
+            </React.Fragment>
+          ))}
+          <div />
+          {x.values.map(value => (
+            <div key={String(value)} className="text-xs text-muted-foreground text-center truncate" title={formatAxisValue(x.parameter, value)}>
+              {formatAxisValue(x.parameter, value)}
+            </div>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Columns: {xInfo?.name}{xInfo?.unit && ` (${xInfo.unit})`}. Rows: {yInfo?.name}{yInfo?.unit && ` (${yInfo.unit})`}. Cells show max safe current in A and the limiting constraint:{' '}
+        {reasons.map(reason => (reason ? `${reasonCodes[reason]} = ${reason}` : '- = none in range')).join(', ')}.
+        {sweepResult.chillerInlet !== undefined && ` Liquid loops are held at a ${sweepResult.chillerInlet}°C inlet by a chiller, so their cells do not follow ambient.`}
+      </p>
+    </div>
+  );
+};
+
+export default function SweepView({ onRunSweep, onSelectCell, isSweeping, progress, sweepResult }: SweepViewProps) {
+  const [xAxis, setXAxis] = useState<SweepAxisInput>({ parameter: 'switchingFrequency', from: 20, to: 200, steps: 10 });
+  const [yAxis, setYAxis] = useState<SweepAxisInput>({ parameter: 'coolingMethod', from: 0, to: 0, steps: 1 });
+
+  const isValidAxis = (axis: SweepAxisInput) =>
+    axis.parameter === 'coolingMethod' || (Number.isFinite(axis.from) && Number.isFinite(axis.to) && axis.steps >= 2 && axis.steps <= MAX_STEPS);
+  const canRun = !isSweeping && xAxis.parameter !== yAxis.parameter && isValidAxis(xAxis) && isValidAxis(yAxis);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Grid3x3 className="text-primary" /> Parameter Sweep</CardTitle>
+        <CardDescription>
+          Vary two inputs of the analyzer form over a grid and map the max safe current. Every other input keeps its current value. Click a cell to load that configuration into the form.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <AxisControls title="X Axis" axis={xAxis} onChange={setXAxis} />
+        <AxisControls title="Y Axis" axis={yAxis} onChange={setYAxis} />
+        {xAxis.parameter === yAxis.parameter && (
+          <p className="text-sm text-destructive">Choose two different parameters.</p>
+        )}
+        <Button onClick={() => onRunSweep(xAxis, yAxis)} disabled={!canRun} className="w-full">
+          {isSweeping ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Grid3x3 className="mr-2 h-4 w-4" />}
+          Run Sweep
+        </Button>
+        {isSweeping && <Progress value={progress} className="w-full h-3" />}
+        {sweepResult && <Heatmap sweepResult={sweepResult} onSelectCell={onSelectCell} />}
+      </CardContent>
+    </Card>
+  );
+}
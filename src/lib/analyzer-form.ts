@@ -0,0 +1,289 @@
+import { z } from 'zod';
+import { coolingMethods, thermalInterfaces } from './constants';
+import { liquidCoolerRth } from './liquid-cooling';
+import { parseFosterNetwork, parseMissionProfile, parseSoaCurves } from './parsers';
+import type { CoolantParams, CoolingMethod, EngineParams } from './types';
+
+// Datasheet tolerance of one parameter: a max value (typ is the spec entered above) or a ± % spread
+const toleranceSchema = z.object({
+  max: z.coerce.number().min(0).optional(),
+  percent: z.coerce.number().min(0).max(100).optional(),
+  shape: z.enum(['normal', 'uniform']).default('normal'),
+});
+
+export const isMosfetType = (type: string) => {
+    return type.includes('MOSFET') || type.includes('GaN');
+};
+
+const DEFAULT_CONTACT_AREA = 150; // mm², a TO-220 tab
+
+// A cleared number input sends '', which z.coerce turns into 0; for inputs where 0 means something, empty means unset
+const optionalNumber = (schema: z.ZodNumber = z.coerce.number()) => z.preprocess(value => (value === '' ? undefined : value), schema.optional());
+
+export const formSchema = z.object({
+  predefinedComponent: z.string().optional(),
+  componentName: z.string().optional(),
+  datasheet: z.instanceof(File).optional(),
+  
+  // Core Specs
+  transistorType: z.string().min(1, 'Transistor type is required.'),
+  maxCurrent: z.coerce.number().positive(),
+  maxVoltage: z.coerce.number().positive(),
+  powerDissipation: z.coerce.number().positive().optional(),
+  rdsOn: z.coerce.number().optional(), // mOhms
+  vceSat: z.coerce.number().optional(), // V
+  riseTime: z.coerce.number().positive(), // ns
+  fallTime: z.coerce.number().positive(), // ns
+  rthJC: z.coerce.number().positive("Junction-to-Case Thermal Resistance is required."), // °C/W
+  maxTemperature: z.coerce.number().positive(),
+  tempCoefficient: z.coerce.number().optional(), // %/°C
+  zthFoster: z.string().optional(),
+
+  // Switching Energies (optional, replaces the rise/fall time estimate)
+  eon: z.coerce.number().min(0).optional(), // µJ
+  eoff: z.coerce.number().min(0).optional(), // µJ
+  erec: z.coerce.number().min(0).optional(), // µJ
+  eoss: z.coerce.number().min(0).optional(), // µJ
+  energyRefVoltage: z.coerce.number().optional(), // V
+  energyRefCurrent: z.coerce.number().optional(), // A
+  energyRefTemperature: z.coerce.number().optional(), // °C
+
+  // Complementary Diode (optional)
+  diodeVf: z.coerce.number().min(0).optional(), // V
+  diodeRd: z.coerce.number().min(0).optional(), // mOhms
+  qrr: z.coerce.number().min(0).optional(), // nC
+  trr: z.coerce.number().min(0).optional(), // ns
+  reverseConductionVoltage: z.coerce.number().min(0).optional(), // V
+
+  // Gate Charge (optional, derives rise/fall times for the gate driver below)
+  qg: z.coerce.number().min(0).optional(), // nC
+  qgs: z.coerce.number().min(0).optional(), // nC
+  qgd: z.coerce.number().min(0).optional(), // nC
+  plateauVoltage: z.coerce.number().min(0).optional(), // V
+  gateResistance: z.coerce.number().min(0).optional(), // Ohms, internal
+  ciss: z.coerce.number().min(0).optional(), // pF
+  coss: z.coerce.number().min(0).optional(), // pF
+  crss: z.coerce.number().min(0).optional(), // pF
+
+  // Safe Operating Area (optional)
+  soaCurves: z.string().optional(),
+
+  // Simulation Constraints
+  simulationMode: z.enum(['ftf', 'temp', 'budget', 'transient']).default('ftf'),
+  simulationAlgorithm: z.enum(['iterative', 'binary', 'analytic', 'monte-carlo']).default('iterative'),
+  precisionSteps: z.coerce.number().min(10).max(500).default(200),
+  binaryTolerance: z.coerce.number().positive().default(0.01), // A, bisection stops once the bracket is narrower
+  binaryMaxIterations: z.coerce.number().int().min(1).max(200).default(40),
+  monteCarloSamples: z.coerce.number().int().min(100).max(10000).default(1000),
+  monteCarloSeed: z.coerce.number().int().min(0).optional(),
+  tolerances: z.object({
+    conduction: toleranceSchema, // Rds(on) / Vce(sat)
+    rthJC: toleranceSchema,
+    coolerRth: toleranceSchema,
+    switching: toleranceSchema, // Rise/fall times and switching energies, ± % only
+  }),
+  switchingFrequency: z.coerce.number().positive(), // kHz
+  coolingMethod: z.string().min(1, 'Please select a cooling method'),
+  thermalInterface: z.string().default('none'),
+  timThickness: optionalNumber(z.coerce.number().min(0)), // mm, defaults to the material's typical thickness
+  contactArea: z.coerce.number().positive().optional(), // mm², device tab on the sink
+  sinkDeviceCount: z.coerce.number().int().min(1).optional(), // devices sharing the heatsink
+  ambientTemperature: z.coerce.number().default(25),
+  coolantFlow: z.coerce.number().positive().optional(), // L/min, liquid loops only
+  coolantInletTemperature: optionalNumber(), // °C, held by a chiller; empty to cool the loop with its radiator
+
+  // Converter Topology
+  topology: z.enum(['dc-switch', 'buck', 'sync-buck', 'boost', 'half-bridge', 'full-bridge', 'three-phase-inverter']).default('dc-switch'),
+  inputVoltage: z.coerce.number().optional(), // V, DC bus
+  strayInductance: z.coerce.number().min(0).optional(), // nH, commutation loop
+  voltageDerating: z.coerce.number().min(1).max(100).optional(), // % of maxVoltage
+  parallelCount: z.coerce.number().int().min(1).max(16).default(1),
+  rdsOnTolerance: z.coerce.number().min(0).max(50).optional(), // ± % spread of Rds(on) / Vce(sat)
+  vthSpread: z.coerce.number().min(0).optional(), // V, min-to-max gate threshold spread
+  outputVoltage: z.coerce.number().optional(), // V
+  modulationIndex: z.coerce.number().min(0).max(1.15).optional(),
+  powerFactor: z.coerce.number().min(0).max(1).optional(),
+  rippleRatio: z.coerce.number().min(0).max(200).optional(), // % of load current, peak-to-peak
+  conductionWaveform: z.enum(['dc', 'pwm', 'half-sine', 'full-sine', 'trapezoid']).default('trapezoid'),
+  dutyCycle: optionalNumber(z.coerce.number().min(0).max(100)), // %, DC switch only
+  switchingMode: z.enum(['hard', 'zvs', 'partial-zvs', 'zcs']).default('hard'),
+  zvsSwing: z.coerce.number().min(0).max(100).optional(), // % of the blocking voltage discharged before a partial-ZVS turn-on
+  deadTime: z.coerce.number().min(0).optional(), // ns
+
+  // Gate Driver (optional)
+  driveVoltage: z.coerce.number().min(0).optional(), // V
+  driverSourceCurrent: z.coerce.number().min(0).optional(), // A, peak
+  driverSinkCurrent: z.coerce.number().min(0).optional(), // A, peak
+  externalGateResistance: z.coerce.number().min(0).optional(), // Ohms
+  
+  // FTF Limits
+  coolingBudget: z.coerce.number().optional(),
+
+  // Deep Dive Optimizer
+  optimizerMinFrequency: z.coerce.number().positive().default(10), // kHz
+  optimizerMaxFrequency: z.coerce.number().positive().default(200), // kHz
+  costWeight: z.coerce.number().min(0).max(1).default(0),
+  sizeWeight: z.coerce.number().min(0).max(1).default(0),
+
+  // Transient Load Profile
+  loadProfile: z.enum(['step', 'pulse', 'mission', 'overload']).default('pulse'),
+  missionProfile: z.string().optional(), // CSV of time (s), current (A), ambient (°C)
+  lifetimeModel: z.enum(['lesit', 'coffin-manson']).default('lesit'),
+  pulseCurrent: z.coerce.number().optional(), // A
+  pulseWidth: z.coerce.number().optional(), // ms
+  pulsePeriod: z.coerce.number().optional(), // ms
+  transientDuration: z.coerce.number().optional(), // s
+
+}).superRefine((data: { componentName: any; predefinedComponent: any; transistorType: string; rdsOn: number; vceSat: number; simulationMode: string; simulationAlgorithm: string; coolingBudget: number; optimizerMinFrequency: number; optimizerMaxFrequency: number; zthFoster?: string; soaCurves?: string; loadProfile: string; missionProfile?: string; pulseCurrent?: number; pulseWidth?: number; pulsePeriod?: number; transientDuration?: number; topology: string; inputVoltage?: number; strayInductance?: number; fallTime: number; outputVoltage?: number; eon?: number; eoff?: number; energyRefVoltage?: number; energyRefCurrent?: number; switchingMode: string; zvsSwing?: number; qgd?: number; crss?: number; plateauVoltage?: number; gateResistance?: number; driveVoltage?: number; driverSourceCurrent?: number; driverSinkCurrent?: number; externalGateResistance?: number; }, ctx: { addIssue: (arg0: { code: any; path: string[]; message: string; }) => void; }) => {
+    if (!data.componentName && !data.predefinedComponent) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['componentName'], message: 'Device name is required if not selecting a predefined one.' });
+    }
+    if (data.transistorType && isMosfetType(data.transistorType) && (!data.rdsOn || data.rdsOn <= 0)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rdsOn'], message: 'Rds(on) is required for this transistor type and must be positive.' });
+    }
+    if (data.transistorType && !isMosfetType(data.transistorType) && (!data.vceSat || data.vceSat <= 0)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['vceSat'], message: 'Vce(sat) is required for this transistor type and must be positive.' });
+    }
+    if (data.simulationMode === 'budget' && (!data.coolingBudget || data.coolingBudget <= 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['coolingBudget'], message: 'Cooling Budget must be a positive number for this mode.' });
+    }
+    if (data.inputVoltage && data.outputVoltage) {
+      if ((data.topology === 'buck' || data.topology === 'sync-buck' || data.topology === 'dc-switch') && data.outputVoltage > data.inputVoltage) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['outputVoltage'], message: 'Output voltage cannot exceed the bus voltage for this topology.' });
+      }
+      if (data.topology === 'boost' && data.outputVoltage <= data.inputVoltage) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['outputVoltage'], message: 'A boost converter needs an output voltage above its bus voltage.' });
+      }
+    }
+    if (data.strayInductance && data.strayInductance > 0 && !(data.fallTime > 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fallTime'], message: 'A fall time is needed to estimate the turn-off overshoot from the stray inductance.' });
+    }
+    if ((data.eon || data.eoff) && (!data.energyRefVoltage || data.energyRefVoltage <= 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['energyRefVoltage'], message: 'Enter the test voltage the switching energies were measured at.' });
+    }
+    if ((data.eon || data.eoff) && (!data.energyRefCurrent || data.energyRefCurrent <= 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['energyRefCurrent'], message: 'Enter the test current the switching energies were measured at.' });
+    }
+    if (data.switchingMode === 'partial-zvs' && data.zvsSwing === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['zvsSwing'], message: 'Enter how much of the voltage the resonant transition discharges before turn-on.' });
+    }
+    if (data.driveVoltage) {
+      if (!data.plateauVoltage || !(data.qgd || data.crss)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['driveVoltage'], message: 'The gate drive model needs the plateau voltage and Qgd or Crss from the gate charge specs.' });
+      } else if (data.driveVoltage <= data.plateauVoltage) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['driveVoltage'], message: 'The drive voltage must be above the plateau voltage to turn the device on.' });
+      }
+      if (!((data.gateResistance || 0) + (data.externalGateResistance || 0) > 0) && !(data.driverSourceCurrent && data.driverSinkCurrent)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['externalGateResistance'], message: 'Enter a gate resistance or the driver source and sink currents to limit the gate current.' });
+      }
+    }
+    if (data.zthFoster && !parseFosterNetwork(data.zthFoster)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['zthFoster'], message: 'Use "R:tau" pairs separated by commas, e.g. 0.3:0.0005, 1.2:0.01.' });
+    }
+    if (data.soaCurves && !parseSoaCurves(data.soaCurves)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['soaCurves'], message: 'Write one curve per line as "100us = V:I, V:I" or "DC = V:I, V:I", with at least two points each.' });
+    }
+    if (data.optimizerMaxFrequency <= data.optimizerMinFrequency) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['optimizerMaxFrequency'], message: 'Max frequency must be above the min frequency.' });
+    }
+    if (data.simulationMode === 'transient' && data.simulationAlgorithm === 'monte-carlo') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['simulationAlgorithm'], message: 'Monte Carlo analysis searches the steady-state limit; pick another end condition.' });
+    }
+    if (data.simulationMode === 'transient' && data.loadProfile === 'mission') {
+      if (!data.missionProfile || !parseMissionProfile(data.missionProfile)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['missionProfile'], message: 'Upload a CSV of time, current, ambient rows with increasing times.' });
+      }
+    } else if (data.simulationMode === 'transient') {
+      if (!data.pulseCurrent || data.pulseCurrent <= 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pulseCurrent'], message: 'Load current must be a positive number for a transient simulation.' });
+      }
+      if (data.loadProfile !== 'overload' && (!data.transientDuration || data.transientDuration <= 0)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['transientDuration'], message: 'Duration must be a positive number.' });
+      }
+      if (data.loadProfile === 'pulse') {
+        if (!data.pulseWidth || data.pulseWidth <= 0) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pulseWidth'], message: 'Pulse width must be a positive number.' });
+        }
+        if (!data.pulsePeriod || !data.pulseWidth || data.pulsePeriod < data.pulseWidth) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pulsePeriod'], message: 'Period must be at least as long as the pulse width.' });
+        }
+      }
+    }
+});
+
+export type FormValues = z.infer<typeof formSchema>;
+
+// Converts form values to the units and derived quantities the simulation engine expects
+export const toEngineParams = (values: FormValues): EngineParams => {
+  const {
+    maxCurrent, maxVoltage, powerDissipation, rthJC, riseTime, fallTime,
+    switchingFrequency, maxTemperature, ambientTemperature, coolingMethod, coolantFlow, coolantInletTemperature,
+    thermalInterface, timThickness, contactArea, sinkDeviceCount,
+    transistorType, rdsOn, vceSat, simulationMode, coolingBudget,
+    simulationAlgorithm, precisionSteps, binaryTolerance, binaryMaxIterations, monteCarloSamples, monteCarloSeed, tolerances, tempCoefficient, zthFoster,
+    loadProfile, pulseCurrent, pulseWidth, pulsePeriod, transientDuration, missionProfile, lifetimeModel,
+    topology, inputVoltage, outputVoltage, modulationIndex, powerFactor, rippleRatio,
+    conductionWaveform, dutyCycle, switchingMode, zvsSwing, deadTime, eoss, reverseConductionVoltage,
+    strayInductance, voltageDerating, parallelCount, rdsOnTolerance, vthSpread,
+    eon, eoff, erec, energyRefVoltage, energyRefCurrent, energyRefTemperature,
+    diodeVf, diodeRd, qrr, trr, soaCurves,
+    qg, qgs, qgd, plateauVoltage, gateResistance, ciss, coss, crss,
+    driveVoltage, driverSourceCurrent, driverSinkCurrent, externalGateResistance,
+  } = values;
+
+  const selectedCooling = coolingMethods.find(c => c.value === coolingMethod) as CoolingMethod;
+  // A liquid loop's Rth follows its flow; a chiller-held inlet replaces ambient as the engine's cooler reference
+  const coolant: CoolantParams | undefined = selectedCooling.liquid && {
+    loop: selectedCooling.liquid,
+    flow: coolantFlow ?? selectedCooling.liquid.nominalFlow,
+    inletTemperature: coolantInletTemperature,
+  };
+  const coolerRth = coolant ? liquidCoolerRth(coolant) : selectedCooling.thermalResistance;
+  const selectedInterface = thermalInterfaces.find(t => t.value === thermalInterface) ?? thermalInterfaces[0];
+  // Case-to-sink conduction through the TIM: thickness / (k · area)
+  const rthCS = selectedInterface.thermalConductivity > 0
+    ? ((timThickness ?? selectedInterface.thickness) / 1000) / (selectedInterface.thermalConductivity * (contactArea || DEFAULT_CONTACT_AREA) / 1e6)
+    : 0;
+  const totalRth = rthJC + rthCS + coolerRth;
+  const rdsOnOhms = (rdsOn || 0) / 1000;
+  const tempCoeff = (tempCoefficient || 0) / 100;
+  const diodeRdOhms = (diodeRd || 0) / 1000;
+  // Without a datasheet Foster fit, junction-to-case is treated as a single instantaneous stage
+  const fosterNetwork = (zthFoster && parseFosterNetwork(zthFoster)) || [{ r: rthJC, tau: 0 }];
+  const soa = (soaCurves && parseSoaCurves(soaCurves)) || [];
+  // The engine samples every tolerance as a fractional spread around the typical value
+  const toleranceSpread = (tolerance: FormValues['tolerances']['conduction'] | undefined, typical?: number) => ({
+    spread: tolerance?.max && typical ? Math.max(0, tolerance.max / typical - 1) : (tolerance?.percent || 0) / 100,
+    shape: tolerance?.shape ?? 'normal',
+  });
+  const effectiveCoolingBudget = (simulationMode === 'budget' && coolingBudget) ? coolingBudget : selectedCooling.coolingBudget;
+
+  return {
+    maxCurrent, maxVoltage, powerDissipation, rthJC, riseTime, fallTime,
+    switchingFrequency, maxTemperature, ambientTemperature, totalRth,
+    transistorType, rdsOnOhms, vceSat, simulationMode, coolingBudget,
+    simulationAlgorithm, precisionSteps, binaryTolerance, binaryMaxIterations, effectiveCoolingBudget, tempCoeff,
+    fosterNetwork, coolerRth, coolerCapacitance: selectedCooling.thermalCapacitance, coolant,
+    loadProfile, pulseCurrent, pulseWidth, pulsePeriod, transientDuration,
+    topology, inputVoltage, outputVoltage, modulationIndex, powerFactor,
+    rippleRatio: (rippleRatio || 0) / 100,
+    conductionWaveform, dutyCycle: dutyCycle === undefined ? undefined : dutyCycle / 100,
+    eon, eoff, erec, energyRefVoltage, energyRefCurrent, energyRefTemperature,
+    diodeVf, diodeRdOhms, qrr, trr, soaCurves: soa,
+    eoss, reverseConductionVoltage, switchingMode, zvsFraction: (zvsSwing || 0) / 100, deadTime,
+    qg, qgs, qgd, plateauVoltage, gateResistance, ciss, coss, crss,
+    driveVoltage, driverSourceCurrent, driverSinkCurrent, externalGateResistance,
+    strayInductance, voltageDerating: (voltageDerating || 100) / 100,
+    parallelCount, rdsOnTolerance: (rdsOnTolerance || 0) / 100, vthSpread,
+    rthCS, sinkDeviceCount,
+    missionProfile: loadProfile === 'mission' && missionProfile ? parseMissionProfile(missionProfile) : null,
+    lifetimeModel,
+    monteCarloSamples, monteCarloSeed,
+    tolerances: {
+      conduction: toleranceSpread(tolerances?.conduction, isMosfetType(transistorType) ? rdsOn : vceSat),
+      rthJC: toleranceSpread(tolerances?.rthJC, rthJC),
+      coolerRth: toleranceSpread(tolerances?.coolerRth, coolerRth),
+      switching: toleranceSpread({ ...tolerances?.switching, max: undefined }),
+    },
+  };
+};
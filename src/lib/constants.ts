@@ -1,41 +1,62 @@
-import type { CoolingMethod, PredefinedTransistor } from './types';
+import type { ConductionWaveform, CoolingMethod, CurrentBasis, LiquidLoop, PredefinedTransistor, SweepParameter, SwitchingMode, ThermalInterface, Topology } from './types';
 
+// Liquid loops share a cold plate and pump per class; each radiator capacity is chosen so the loop
+// reproduces its catalogue thermalResistance at nominal flow.
+// AIO: cold plate with the pump in its head, ~2 m of tubing
+const AIO_LOOP: Omit<LiquidLoop, 'radiatorCapacity'> = {
+  coldPlate: [{ flow: 0.5, rth: 0.16 }, { flow: 1, rth: 0.12 }, { flow: 1.5, rth: 0.105 }, { flow: 2, rth: 0.095 }],
+  nominalFlow: 1.2,
+  pumpMaxHead: 20,
+  pumpMaxFlow: 3,
+  loopResistance: 5.6,
+};
+// Custom: copper cold plate on a D5-class pump
+const CUSTOM_LOOP: Omit<LiquidLoop, 'radiatorCapacity'> = {
+  coldPlate: [{ flow: 1, rth: 0.06 }, { flow: 2, rth: 0.045 }, { flow: 4, rth: 0.035 }, { flow: 8, rth: 0.03 }],
+  nominalFlow: 4,
+  pumpMaxHead: 39,
+  pumpMaxFlow: 25,
+  loopResistance: 0.75,
+};
+
+// thermalCapacitance is the lumped heat capacity of the cooler (J/°C), used for transient simulations.
+// cost (USD, typical street price) and volume (cm³, installed envelope) weight the deep dive optimizer.
 export const coolingMethods: CoolingMethod[] = [
   // Air Cooling - Low Profile
-  { name: 'Noctua NH-L9i/a', value: 'air-nh-l9', thermalResistance: 3.5, coolingBudget: 95 },
-  { name: 'Cryorig C7', value: 'air-c7', thermalResistance: 3.2, coolingBudget: 100 },
-  { name: 'Scythe Big Shuriken 3', value: 'air-shuriken-3', thermalResistance: 2.8, coolingBudget: 125 },
+  { name: 'Noctua NH-L9i/a', value: 'air-nh-l9', thermalResistance: 3.5, coolingBudget: 95, thermalCapacitance: 350, cost: 50, volume: 380 },
+  { name: 'Cryorig C7', value: 'air-c7', thermalResistance: 3.2, coolingBudget: 100, thermalCapacitance: 300, cost: 35, volume: 330 },
+  { name: 'Scythe Big Shuriken 3', value: 'air-shuriken-3', thermalResistance: 2.8, coolingBudget: 125, thermalCapacitance: 420, cost: 45, volume: 560 },
 
   // Air Cooling - Mid-Range Tower
-  { name: 'Cooler Master Hyper 212 EVO', value: 'air-hyper-212', thermalResistance: 2.0, coolingBudget: 150 },
-  { name: 'be quiet! Pure Rock 2', value: 'air-pure-rock-2', thermalResistance: 1.8, coolingBudget: 150 },
-  { name: 'ARCTIC Freezer 34 eSports DUO', value: 'air-freezer-34', thermalResistance: 1.6, coolingBudget: 210 },
+  { name: 'Cooler Master Hyper 212 EVO', value: 'air-hyper-212', thermalResistance: 2.0, coolingBudget: 150, thermalCapacitance: 480, cost: 35, volume: 1150 },
+  { name: 'be quiet! Pure Rock 2', value: 'air-pure-rock-2', thermalResistance: 1.8, coolingBudget: 150, thermalCapacitance: 500, cost: 45, volume: 1100 },
+  { name: 'ARCTIC Freezer 34 eSports DUO', value: 'air-freezer-34', thermalResistance: 1.6, coolingBudget: 210, thermalCapacitance: 560, cost: 50, volume: 1250 },
   
   // Air Cooling - High-End Tower
-  { name: 'Noctua NH-D15', value: 'air-nh-d15', thermalResistance: 1.1, coolingBudget: 220 },
-  { name: 'be quiet! Dark Rock Pro 4', value: 'air-dark-rock-pro-4', thermalResistance: 1.0, coolingBudget: 250 },
-  { name: 'Deepcool Assassin IV', value: 'air-assassin-iv', thermalResistance: 0.95, coolingBudget: 280 },
+  { name: 'Noctua NH-D15', value: 'air-nh-d15', thermalResistance: 1.1, coolingBudget: 220, thermalCapacitance: 1100, cost: 110, volume: 2300 },
+  { name: 'be quiet! Dark Rock Pro 4', value: 'air-dark-rock-pro-4', thermalResistance: 1.0, coolingBudget: 250, thermalCapacitance: 1000, cost: 90, volume: 2100 },
+  { name: 'Deepcool Assassin IV', value: 'air-assassin-iv', thermalResistance: 0.95, coolingBudget: 280, thermalCapacitance: 1200, cost: 100, volume: 2400 },
   
   // AIO Water Cooling
-  { name: 'Corsair H60 (120mm)', value: 'aio-120-h60', thermalResistance: 0.8, coolingBudget: 170 },
-  { name: 'ARCTIC Liquid Freezer III (240mm)', value: 'aio-240-lf3', thermalResistance: 0.5, coolingBudget: 280 },
-  { name: 'Corsair H115i (280mm)', value: 'aio-280-h115i', thermalResistance: 0.45, coolingBudget: 320 },
-  { name: 'Lian Li Galahad (360mm)', value: 'aio-360-galahad', thermalResistance: 0.35, coolingBudget: 360 },
-  { name: 'EK-Nucleus AIO CR360 Lux (360mm)', value: 'aio-360-ek-nucleus', thermalResistance: 0.3, coolingBudget: 400 },
-  { name: 'ARCTIC Liquid Freezer III (420mm)', value: 'aio-420-lf3', thermalResistance: 0.25, coolingBudget: 450 },
+  { name: 'Corsair H60 (120mm)', value: 'aio-120-h60', thermalResistance: 0.8, coolingBudget: 170, thermalCapacitance: 900, cost: 70, volume: 1400, liquid: { ...AIO_LOOP, radiatorCapacity: 1.46 } },
+  { name: 'ARCTIC Liquid Freezer III (240mm)', value: 'aio-240-lf3', thermalResistance: 0.5, coolingBudget: 280, thermalCapacitance: 1600, cost: 95, volume: 2300, liquid: { ...AIO_LOOP, radiatorCapacity: 2.58 } },
+  { name: 'Corsair H115i (280mm)', value: 'aio-280-h115i', thermalResistance: 0.45, coolingBudget: 320, thermalCapacitance: 1700, cost: 140, volume: 2700, liquid: { ...AIO_LOOP, radiatorCapacity: 2.97 } },
+  { name: 'Lian Li Galahad (360mm)', value: 'aio-360-galahad', thermalResistance: 0.35, coolingBudget: 360, thermalCapacitance: 2000, cost: 180, volume: 3300, liquid: { ...AIO_LOOP, radiatorCapacity: 4.22 } },
+  { name: 'EK-Nucleus AIO CR360 Lux (360mm)', value: 'aio-360-ek-nucleus', thermalResistance: 0.3, coolingBudget: 400, thermalCapacitance: 2100, cost: 200, volume: 3400, liquid: { ...AIO_LOOP, radiatorCapacity: 5.35 } },
+  { name: 'ARCTIC Liquid Freezer III (420mm)', value: 'aio-420-lf3', thermalResistance: 0.25, coolingBudget: 450, thermalCapacitance: 2400, cost: 150, volume: 3900, liquid: { ...AIO_LOOP, radiatorCapacity: 7.3 } },
 
   // Custom Water Cooling
-  { name: 'Custom Loop (Single 240mm Slim Rad)', value: 'custom-loop-single-240', thermalResistance: 0.28, coolingBudget: 450 },
-  { name: 'Custom Loop (Single 360mm Thick Rad)', value: 'custom-loop-single-360', thermalResistance: 0.15, coolingBudget: 700 },
-  { name: 'Custom Loop (Dual 360mm Rads)', value: 'custom-loop-dual-360', thermalResistance: 0.08, coolingBudget: 1200 },
-  { name: 'Custom Loop (Dual 480mm Rads)', value: 'custom-loop-dual-480', thermalResistance: 0.06, coolingBudget: 1500 },
-  { name: 'Extreme Custom Loop (Triple+ Rads)', value: 'custom-loop-extreme', thermalResistance: 0.04, coolingBudget: 2000 },
+  { name: 'Custom Loop (Single 240mm Slim Rad)', value: 'custom-loop-single-240', thermalResistance: 0.28, coolingBudget: 450, thermalCapacitance: 3500, cost: 350, volume: 4500, liquid: { ...CUSTOM_LOOP, radiatorCapacity: 4.08 } },
+  { name: 'Custom Loop (Single 360mm Thick Rad)', value: 'custom-loop-single-360', thermalResistance: 0.15, coolingBudget: 700, thermalCapacitance: 4500, cost: 450, volume: 6000, liquid: { ...CUSTOM_LOOP, radiatorCapacity: 8.7 } },
+  { name: 'Custom Loop (Dual 360mm Rads)', value: 'custom-loop-dual-360', thermalResistance: 0.08, coolingBudget: 1200, thermalCapacitance: 6500, cost: 750, volume: 10000, liquid: { ...CUSTOM_LOOP, radiatorCapacity: 22.2, loopResistance: 1.0 } },
+  { name: 'Custom Loop (Dual 480mm Rads)', value: 'custom-loop-dual-480', thermalResistance: 0.06, coolingBudget: 1500, thermalCapacitance: 8000, cost: 900, volume: 13000, liquid: { ...CUSTOM_LOOP, radiatorCapacity: 40, loopResistance: 1.0 } },
+  { name: 'Extreme Custom Loop (Triple+ Rads)', value: 'custom-loop-extreme', thermalResistance: 0.04, coolingBudget: 2000, thermalCapacitance: 12000, cost: 1500, volume: 20000, liquid: { ...CUSTOM_LOOP, radiatorCapacity: 200, loopResistance: 1.2 } },
 
   // Exotic & Industrial Cooling
-  { name: 'Industrial Heatsink (Large Passive)', value: 'industrial-passive', thermalResistance: 4.0, coolingBudget: 50 },
-  { name: 'Thermoelectric Cooler (TEC/Peltier)', value: 'exotic-tec', thermalResistance: 0.15, coolingBudget: 800 },
-  { name: 'Phase Change Cooling', value: 'exotic-phase-change', thermalResistance: 0.02, coolingBudget: 2500 },
-  { name: 'Liquid Nitrogen (LN2 Pot)', value: 'exotic-ln2', thermalResistance: 0.001, coolingBudget: 5000 },
+  { name: 'Industrial Heatsink (Large Passive)', value: 'industrial-passive', thermalResistance: 4.0, coolingBudget: 50, thermalCapacitance: 3000, cost: 120, volume: 6000 },
+  { name: 'Thermoelectric Cooler (TEC/Peltier)', value: 'exotic-tec', thermalResistance: 0.15, coolingBudget: 800, thermalCapacitance: 400, cost: 250, volume: 1500 },
+  { name: 'Phase Change Cooling', value: 'exotic-phase-change', thermalResistance: 0.02, coolingBudget: 2500, thermalCapacitance: 900, cost: 1200, volume: 40000 },
+  { name: 'Liquid Nitrogen (LN2 Pot)', value: 'exotic-ln2', thermalResistance: 0.001, coolingBudget: 5000, thermalCapacitance: 2500, cost: 400, volume: 2500 },
 ];
 
 
@@ -54,6 +75,14 @@ export const predefinedTransistors: PredefinedTransistor[] = [
       fallTime: '45',
       rthJC: '1.5', // °C/W
       maxTemperature: '175',
+      tempCoefficient: '0.67', // %/°C
+      qg: '63', // nC
+      qgs: '14',
+      qgd: '23',
+      plateauVoltage: '5.5', // V, read off the gate charge curve
+      ciss: '1470', // pF
+      coss: '360',
+      crss: '88',
     }
   },
   {
@@ -70,6 +99,7 @@ export const predefinedTransistors: PredefinedTransistor[] = [
       fallTime: '20',
       rthJC: '312.5',
       maxTemperature: '150',
+      tempCoefficient: '0.7', // %/°C
     }
   },
   {
@@ -86,6 +116,7 @@ export const predefinedTransistors: PredefinedTransistor[] = [
       fallTime: '35',
       rthJC: '1.36',
       maxTemperature: '175',
+      tempCoefficient: '0.6', // %/°C
     }
   },
   {
@@ -102,6 +133,7 @@ export const predefinedTransistors: PredefinedTransistor[] = [
       fallTime: '10',
       rthJC: '150',
       maxTemperature: '150',
+      tempCoefficient: '0.7', // %/°C
     }
   },
   {
@@ -118,6 +150,7 @@ export const predefinedTransistors: PredefinedTransistor[] = [
       fallTime: '25',
       rthJC: '3.12',
       maxTemperature: '150',
+      tempCoefficient: '0.1', // %/°C
     }
   }
 ];
@@ -131,3 +164,76 @@ export const transistorTypes = [
     'BJT (NPN)',
     'BJT (PNP)'
 ];
+
+
+export const topologies: Topology[] = [
+  { name: 'DC Switch', value: 'dc-switch', description: 'Single switch carrying the selected conduction waveform.' },
+  { name: 'Buck', value: 'buck', description: 'Step-down converter with a diode freewheel. Load current is the output current.', currentBasis: 'average' },
+  { name: 'Synchronous Buck', value: 'sync-buck', description: 'Step-down converter with a low-side synchronous rectifier.', currentBasis: 'average' },
+  { name: 'Boost', value: 'boost', description: 'Step-up converter. The switch carries the input current, Iout / (1 - D).', currentBasis: 'average' },
+  { name: 'Half-Bridge (Sine PWM)', value: 'half-bridge', description: 'Single-phase leg with sine PWM. Load current is the peak phase current.', currentBasis: 'peak' },
+  { name: 'Full-Bridge (Sine PWM)', value: 'full-bridge', description: 'H-bridge with sine PWM. Load current is the peak output current.', currentBasis: 'peak' },
+  { name: '3-Phase Inverter (Sine PWM)', value: 'three-phase-inverter', description: 'Six-switch inverter with sine PWM. Load current is the peak phase current.', currentBasis: 'peak' },
+];
+
+// Current shapes through a DC switch. Sine waveforms repeat at the switching frequency and
+// commutate at zero current, so they have no overlap loss.
+export const conductionWaveforms: ConductionWaveform[] = [
+  { name: 'DC', value: 'dc', description: 'Continuous conduction. Load current is the DC current.', currentBasis: 'average' },
+  { name: 'PWM Square Wave', value: 'pwm', description: 'Flat pulses for the duty cycle. Load current is the pulse height.', currentBasis: 'peak' },
+  { name: 'Trapezoid (with Ripple)', value: 'trapezoid', description: 'Pulses for the duty cycle with the current ripple on top. Load current is the average during the pulse.', currentBasis: 'average' },
+  { name: 'Half-Sine', value: 'half-sine', description: 'One half-sine pulse per period, then off for the other half (resonant and quasi-resonant switches). Load current is the crest.', currentBasis: 'peak' },
+  { name: 'Full Sine (AC Switch)', value: 'full-sine', description: 'Conducts a full sine wave, as in an AC load switch. Load current is the RMS line current.', currentBasis: 'rms' },
+];
+
+export const currentBasisLabels: Record<CurrentBasis, string> = {
+  peak: 'Peak Current',
+  rms: 'RMS Current',
+  average: 'Average Current',
+};
+
+// What the load current measures: set by the topology, or by the conduction waveform of a DC switch
+export const loadCurrentBasis = (topology: string, waveform?: string): CurrentBasis =>
+  topologies.find(t => t.value === topology)?.currentBasis
+    ?? conductionWaveforms.find(w => w.value === (waveform ?? 'trapezoid'))?.currentBasis
+    ?? 'average';
+
+// How the switches commutate; soft switching removes some of the turn-on and turn-off losses
+export const switchingModes: SwitchingMode[] = [
+  { name: 'Hard Switched', value: 'hard', description: 'Voltage and current overlap at both edges, and Coss is discharged into the channel at turn-on.' },
+  { name: 'ZVS', value: 'zvs', description: 'The resonant transition empties Coss before turn-on (LLC, phase-shifted bridges, CRM totem-pole PFC). Only turn-off loses energy.' },
+  { name: 'Partial ZVS', value: 'partial-zvs', description: 'The transition only partly discharges Coss; turn-on starts from the remaining voltage.' },
+  { name: 'ZCS', value: 'zcs', description: 'Current commutates at zero, so there is no overlap loss, but Coss still discharges at turn-on.' },
+];
+
+// Case-to-sink interface materials. Rth(c-s) = thickness / (conductivity · contact area).
+export const thermalInterfaces: ThermalInterface[] = [
+  { name: 'None (ideal contact)', value: 'none', thermalConductivity: 0, thickness: 0, insulating: false },
+  { name: 'Standard Thermal Grease', value: 'grease', thermalConductivity: 0.8, thickness: 0.05, insulating: false },
+  { name: 'High-Performance Paste', value: 'paste-hp', thermalConductivity: 8.5, thickness: 0.03, insulating: false },
+  { name: 'Phase-Change Pad', value: 'phase-change', thermalConductivity: 1.6, thickness: 0.1, insulating: false },
+  { name: 'Graphite Sheet', value: 'graphite', thermalConductivity: 5, thickness: 0.13, insulating: false },
+  { name: 'Sil-Pad 400', value: 'sil-pad-400', thermalConductivity: 0.9, thickness: 0.23, insulating: true },
+  { name: 'Sil-Pad 900S', value: 'sil-pad-900s', thermalConductivity: 1.6, thickness: 0.23, insulating: true },
+  { name: 'Mica Washer (greased)', value: 'mica', thermalConductivity: 0.7, thickness: 0.076, insulating: true },
+  { name: 'Kapton MT Film', value: 'kapton-mt', thermalConductivity: 0.45, thickness: 0.025, insulating: true },
+  { name: 'Alumina Ceramic Pad', value: 'alumina', thermalConductivity: 25, thickness: 1.0, insulating: true },
+];
+
+// Form inputs a parameter sweep can vary. Cooling method is stepped through every entry in coolingMethods.
+export const sweepParameters: SweepParameter[] = [
+  { name: 'Switching Frequency', value: 'switchingFrequency', unit: 'kHz' },
+  { name: 'Cooling Method', value: 'coolingMethod', unit: '' },
+  { name: 'Ambient Temperature', value: 'ambientTemperature', unit: '°C' },
+  { name: 'Max Junction Temperature', value: 'maxTemperature', unit: '°C' },
+  { name: 'Rth(j-c)', value: 'rthJC', unit: '°C/W' },
+  { name: 'Rds(on)', value: 'rdsOn', unit: 'mΩ' },
+  { name: 'Vce(sat)', value: 'vceSat', unit: 'V' },
+  { name: 'Rise Time', value: 'riseTime', unit: 'ns' },
+  { name: 'Fall Time', value: 'fallTime', unit: 'ns' },
+  { name: 'External Gate Resistance', value: 'externalGateResistance', unit: 'Ω' },
+  { name: 'DC Bus Voltage', value: 'inputVoltage', unit: 'V' },
+  { name: 'Current Ripple', value: 'rippleRatio', unit: '%' },
+  { name: 'Loop Stray Inductance', value: 'strayInductance', unit: 'nH' },
+  { name: 'Devices in Parallel', value: 'parallelCount', unit: '' },
+];
@@ -0,0 +1,58 @@
+import type { CoolantParams, CoolantResult, CoolingMethod, LiquidLoop } from './types';
+
+// Heat one L/min of water carries per °C of temperature rise (ρ·cp at 25°C, per second)
+export const COOLANT_HEAT_CAPACITY = (0.997 / 60) * 4186; // W/°C per L/min
+
+// Cold plate Rth at `flow`, interpolated log-log between the curve points and held flat beyond its ends
+export const coldPlateRth = ({ coldPlate }: LiquidLoop, flow: number) => {
+  const points = [...coldPlate].sort((a, b) => a.flow - b.flow);
+  if (flow <= points[0].flow) return points[0].rth;
+  const upper = points.findIndex(point => point.flow >= flow);
+  if (upper < 0) return points[points.length - 1].rth;
+  const from = points[upper - 1];
+  const to = points[upper];
+  const fraction = Math.log(flow / from.flow) / Math.log(to.flow / from.flow);
+  return Math.exp(Math.log(from.rth) + fraction * Math.log(to.rth / from.rth));
+};
+
+// Pump curve at speed s: head = maxHead·s² − (maxHead / maxFlow²)·Q². The loop drops loopResistance·Q², so
+// a flow needs s = Q·√((loopResistance + maxHead / maxFlow²) / maxHead), and full speed caps the flow.
+export const pumpOperatingPoint = (loop: LiquidLoop, requestedFlow: number) => {
+  const pumpDroop = loop.pumpMaxHead / (loop.pumpMaxFlow * loop.pumpMaxFlow);
+  const maxLoopFlow = Math.sqrt(loop.pumpMaxHead / (loop.loopResistance + pumpDroop));
+  const flow = Math.min(Math.max(requestedFlow, 0), maxLoopFlow);
+  const head = loop.loopResistance * flow * flow;
+  return {
+    flow,
+    head,
+    speed: flow / maxLoopFlow,
+    hydraulicPower: (head * 1000 * flow) / 60000, // Pa · m³/s
+  };
+};
+
+// Sink-to-reference Rth of the loop: the cold plate, plus the radiator unless a chiller holds the inlet
+export const liquidCoolerRth = ({ loop, flow, inletTemperature }: CoolantParams) =>
+  coldPlateRth(loop, pumpOperatingPoint(loop, flow).flow) + (inletTemperature === undefined ? 1 / loop.radiatorCapacity : 0);
+
+// Coolant state with `heat` (W) flowing into the cold plate. Without a chiller the inlet sits above
+// `ambientTemperature` by what the radiator needs to reject that heat.
+export const coolantState = (coolant: CoolantParams, heat: number, ambientTemperature: number): CoolantResult => {
+  const pump = pumpOperatingPoint(coolant.loop, coolant.flow);
+  const radiatorCooled = coolant.inletTemperature === undefined;
+  const inletTemperature = radiatorCooled ? ambientTemperature + heat / coolant.loop.radiatorCapacity : coolant.inletTemperature!;
+  return {
+    requestedFlow: coolant.flow,
+    flow: pump.flow,
+    coldPlateRth: coldPlateRth(coolant.loop, pump.flow),
+    inletTemperature,
+    outletTemperature: pump.flow > 0 ? inletTemperature + heat / (pump.flow * COOLANT_HEAT_CAPACITY) : Infinity,
+    radiatorCooled,
+    pumpHead: pump.head,
+    pumpSpeed: pump.speed,
+    hydraulicPower: pump.hydraulicPower,
+  };
+};
+
+// A chiller holds a liquid loop's inlet whatever the ambient, so ambient no longer reaches the devices it cools
+export const isChillerHeld = (cooler: CoolingMethod | undefined, inletTemperature: number | undefined) =>
+  !!cooler?.liquid && inletTemperature !== undefined;
@@ -0,0 +1,50 @@
+import { coolingMethods } from './constants';
+import type { OptimizerCandidate, OptimizerResult, SweepResult } from './types';
+
+// Frequency points searched per cooler by the deep dive optimizer
+export const OPTIMIZER_FREQUENCY_STEPS = 12;
+
+// a dominates b if it is at least as good in every objective and strictly better in one
+const dominates = (a: OptimizerCandidate, b: OptimizerCandidate) => {
+  const atLeastAsGood = a.maxSafeCurrent >= b.maxSafeCurrent && a.switchingFrequency >= b.switchingFrequency
+    && a.cost <= b.cost && a.volume <= b.volume;
+  const strictlyBetter = a.maxSafeCurrent > b.maxSafeCurrent || a.switchingFrequency > b.switchingFrequency
+    || a.cost < b.cost || a.volume < b.volume;
+  return atLeastAsGood && strictlyBetter;
+};
+
+// Scores a frequency × cooling method sweep and returns the optimum and the Pareto front.
+// The score is max safe current less the weighted cost and volume, each normalised to the largest in the sweep,
+// so with zero weights the optimum is simply the highest current (ties go to the higher frequency).
+export const optimize = (sweep: SweepResult, weights: { cost: number; size: number }): OptimizerResult => {
+  const coolerAxis = sweep.x.parameter === 'coolingMethod' ? 'x' : 'y';
+  const frequencyAxis = coolerAxis === 'x' ? 'y' : 'x';
+  const unscored = sweep.cells.map(cell => {
+    const cooler = coolingMethods.find(c => c.value === cell[coolerAxis])!;
+    return {
+      coolingMethod: cooler.value,
+      switchingFrequency: cell[frequencyAxis] as number,
+      maxSafeCurrent: cell.maxSafeCurrent,
+      failureReason: cell.failureReason,
+      cost: cooler.cost,
+      volume: cooler.volume,
+    };
+  });
+
+  const maxCurrent = Math.max(...unscored.map(c => c.maxSafeCurrent)) || 1;
+  const maxCost = Math.max(...unscored.map(c => c.cost)) || 1;
+  const maxVolume = Math.max(...unscored.map(c => c.volume)) || 1;
+  const candidates: OptimizerCandidate[] = unscored
+    .map(c => ({
+      ...c,
+      score: c.maxSafeCurrent / maxCurrent - weights.cost * (c.cost / maxCost) - weights.size * (c.volume / maxVolume),
+    }))
+    .sort((a, b) => b.score - a.score || b.switchingFrequency - a.switchingFrequency);
+
+  return {
+    weights,
+    evaluated: candidates.length,
+    optimum: candidates[0],
+    paretoFront: candidates.filter(candidate => !candidates.some(other => dominates(other, candidate))),
+  };
+};
@@ -0,0 +1,73 @@
+import type { MissionProfilePoint, SoaCurve } from './types';
+
+// Parses a Foster network written as "R:tau" pairs (°C/W : s). Returns null if the text is malformed.
+export const parseFosterNetwork = (text: string): { r: number; tau: number }[] | null => {
+    const pairs = text.split(/[,;\n]/).map(p => p.trim()).filter(Boolean);
+    const network = pairs.map(pair => {
+        const [r, tau] = pair.split(':').map(v => parseFloat(v));
+        return { r, tau };
+    });
+    if (network.length === 0 || network.some(({ r, tau }) => !(r > 0) || !(tau >= 0))) {
+        return null;
+    }
+    return network;
+};
+
+const DURATION_UNITS: Record<string, number> = { ns: 1e-9, us: 1e-6, 'µs': 1e-6, ms: 1e-3, s: 1 };
+
+// Parses an SOA pulse width label such as "100us" or "DC". Returns null for DC and undefined if malformed.
+const parsePulseWidth = (label: string): number | null | undefined => {
+    if (/^dc$/i.test(label)) return null;
+    const match = label.match(/^(\d+(?:\.\d+)?)\s*(ns|us|µs|ms|s)$/i);
+    if (!match) return undefined;
+    return parseFloat(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+};
+
+// Parses SOA curves written one per line as "<pulse width or DC> = V:I, V:I, ...".
+// Points are sorted by voltage and curves by pulse width (DC last). Returns null if the text is malformed.
+export const parseSoaCurves = (text: string): SoaCurve[] | null => {
+    const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+    const curves: SoaCurve[] = [];
+    for (const line of lines) {
+        const [label, body] = line.split('=').map(part => part?.trim());
+        const pulseWidth = label ? parsePulseWidth(label) : undefined;
+        if (pulseWidth === undefined || !body) return null;
+        const points = body.split(/[,;]/).map(p => p.trim()).filter(Boolean).map(pair => {
+            const [voltage, current] = pair.split(':').map(v => parseFloat(v));
+            return { voltage, current };
+        });
+        if (points.length < 2 || points.some(({ voltage, current }) => !(voltage > 0) || !(current > 0))) {
+            return null;
+        }
+        curves.push({ label: pulseWidth === null ? 'DC' : label, pulseWidth, points: points.sort((a, b) => a.voltage - b.voltage) });
+    }
+    if (curves.length === 0) return null;
+    return curves.sort((a, b) => (a.pulseWidth ?? Infinity) - (b.pulseWidth ?? Infinity));
+};
+
+// Converts an imported "pulse width,voltage,current" CSV (e.g. "100us,10,150") into the SOA text format
+export const soaCsvToText = (csv: string): string => {
+    const curves = new Map<string, string[]>();
+    for (const row of csv.split(/\r?\n/)) {
+        const [label, voltage, current] = row.split(',').map(cell => cell.trim());
+        if (!label || !(parseFloat(voltage) > 0) || !(parseFloat(current) > 0)) continue; // Header or blank row
+        curves.set(label, [...(curves.get(label) ?? []), `${parseFloat(voltage)}:${parseFloat(current)}`]);
+    }
+    return Array.from(curves, ([label, points]) => `${label} = ${points.join(', ')}`).join('\n');
+};
+
+// Parses a "time,current,ambient" mission profile CSV (s, A, °C). The ambient column may be left empty and a
+// header row is skipped. Returns null unless there are at least two rows with strictly increasing times.
+export const parseMissionProfile = (csv: string): MissionProfilePoint[] | null => {
+    const rows: MissionProfilePoint[] = [];
+    for (const line of csv.split(/\r?\n/)) {
+        const cells = line.split(',').map(cell => cell.trim());
+        if (cells.every(cell => cell === '')) continue;
+        const [time, current, ambient] = cells.map(cell => (cell === '' ? NaN : Number(cell)));
+        if (rows.length === 0 && Number.isNaN(time)) continue; // Header
+        if (Number.isNaN(time) || Number.isNaN(current) || current < 0) return null;
+        if (rows.length > 0 && time <= rows[rows.length - 1].time) return null;
+        rows.push({ time, current, ambient: Number.isNaN(ambient) ? null : ambient });
+    }
+    return rows.length >= 2 ? rows : null;
+};
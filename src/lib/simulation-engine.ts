@@ -0,0 +1,1912 @@
+import type {
+  ConstraintMargin, DeviceResult, EngineMessage, EngineParams, GateDriveResult, HistogramBin, LifetimeResult, LiveDataPoint,
+  MonteCarloResult, ParallelDeviceResult, SimulationResult, SoaCheck, SoaCurve, SoaPoint, SweepMessage,
+  ThermalStack, ToleranceSpread,
+} from './types';
+import { coolantState } from './liquid-cooling';
+
+type FailureReason = SimulationResult['failureReason'];
+type Losses = SimulationResult['powerDissipation'];
+type LimitReason = ConstraintMargin['reason'];
+
+// Current stress of one device role over a switching period
+interface DeviceStress {
+  name: string;
+  count: number;
+  rms: number;
+  avg: number;
+  peak: number;
+  switched: number; // Current at hard turn-on/off
+  diodeAvg: number;
+  diodeRms: number;
+  recovered: number; // Diode current at reverse recovery
+  recoveryEvents: number; // Recoveries per period
+  deadTimeCurrent: number; // Current carried in reverse while both switches of the leg are off
+  deadTimeEvents: number; // Dead times per period
+  blockingVoltage: number;
+  paralleled: boolean;
+  onTime: number; // s
+}
+
+interface CurrentShare {
+  conduction: number;
+  switching: number;
+}
+
+interface DeviceSolution {
+  junctionTemp: number;
+  losses: Losses;
+  converged: boolean;
+  bankLoss: number;
+  sinkLoss: number;
+  stress: DeviceStress;
+  bankStress: DeviceStress;
+  parallel: {
+    count: number;
+    worstShare: number;
+    otherShare: number;
+    otherTemp: number;
+    otherLosses: Losses;
+    otherStress: DeviceStress;
+  } | null;
+}
+
+interface SoaUtilisation {
+  name: string;
+  utilisation: number;
+  check: SoaCheck;
+}
+
+interface CheckResult {
+  isSafe: boolean;
+  failureReason: FailureReason;
+  details: string;
+  converged: boolean;
+  finalTemperature: number;
+  powerDissipation: Losses;
+  bankPowerLoss: number;
+  thermalStack: ThermalStack;
+  peakCurrent: number;
+  peakVoltage: number;
+  limitingDevice: string;
+  soa: SoaCheck | undefined;
+  devices: DeviceResult[];
+}
+
+interface Constraint {
+  reason: LimitReason;
+  unit: string;
+  limit: number;
+  enforced: boolean;
+  applies: boolean;
+  value: (check: CheckResult) => number;
+}
+
+type SolvedLimits = Partial<Record<LimitReason | 'Thermal Runaway', number>>;
+
+// One instant of a transient run at the hottest device
+interface TransientState {
+  temperature: number;
+  caseTemperature: number;
+  sinkTemperature: number;
+  sinkLoss: number;
+  time: number;
+  losses: Losses;
+}
+
+interface Cycle {
+  range: number;
+  mean: number;
+  count: number;
+}
+
+const isMosfetType = (type: string) => {
+  return type.includes('MOSFET') || type.includes('GaN');
+};
+
+// Posts the percent of the run completed, at most once per whole percent
+const progressReporter = (post: (message: EngineMessage) => void) => {
+  let reported = -1;
+  return (percent: number) => {
+    const rounded = Math.floor(Math.min(Math.max(percent, 0), 100));
+    if (rounded > reported) {
+      reported = rounded;
+      post({ type: 'progress', progress: rounded });
+    }
+  };
+};
+
+// Runs one simulation for `params` and reports its progress and result through `post`
+export const runEngine = (params: EngineParams, post: (message: EngineMessage) => void) => {
+  const {
+    maxCurrent, maxVoltage, powerDissipation, rthJC,
+    switchingFrequency, maxTemperature, ambientTemperature, totalRth,
+    transistorType, rdsOnOhms, vceSat, simulationMode,
+    simulationAlgorithm, precisionSteps, effectiveCoolingBudget, tempCoeff,
+    fosterNetwork, coolerRth, coolerCapacitance, coolant, loadProfile, pulseCurrent,
+    pulseWidth, pulsePeriod, transientDuration, topology, inputVoltage,
+    outputVoltage, modulationIndex, powerFactor, rippleRatio, conductionWaveform, dutyCycle, eon, eoff, erec,
+    energyRefVoltage, energyRefCurrent, energyRefTemperature, diodeVf, diodeRdOhms,
+    qrr, trr, eoss, coss, reverseConductionVoltage, switchingMode, zvsFraction, deadTime, soaCurves, strayInductance, voltageDerating, parallelCount,
+    rdsOnTolerance, vthSpread, rthCS, sinkDeviceCount, missionProfile, lifetimeModel,
+    binaryTolerance, binaryMaxIterations, skipMargins, qg, qgs, qgd, plateauVoltage, gateResistance,
+    ciss, crss, driveVoltage, driverSourceCurrent, driverSinkCurrent, externalGateResistance,
+  } = params;
+
+  // The cooler rejects heat to ambient, or into coolant a chiller holds at its inlet temperature
+  const referenceTemperature = coolant?.inletTemperature ?? ambientTemperature;
+
+  // Electrothermal solver settings
+  const ELECTROTHERMAL_TOLERANCE = 0.01; // °C
+  const ELECTROTHERMAL_MAX_ITERATIONS = 200;
+
+  // Scaling of datasheet switching energies away from their test conditions
+  const ENERGY_VOLTAGE_EXPONENT = 1.3;
+  const ENERGY_CURRENT_EXPONENT = 1.0;
+  const RECOVERY_VOLTAGE_EXPONENT = 0.6;
+  const RECOVERY_CURRENT_EXPONENT = 0.6;
+  const ENERGY_TEMP_COEFF = 0.003; // 1/°C
+  const EOSS_VOLTAGE_EXPONENT = 1.5; // Coss falls with voltage, so Eoss grows slower than V²
+
+  // Rds(on) / Vce(sat) are datasheet values at 25°C; scale them linearly to the junction temperature
+  const conductionScale = (junctionTemp: number) => Math.max(0, 1 + (tempCoeff || 0) * (junctionTemp - 25));
+
+  // Converter operating point. Without explicit voltages the device is switched at its
+  // rated voltage with a 50% duty cycle.
+  const busVoltage = inputVoltage || maxVoltage;
+  const ripple = rippleRatio || 0;
+  const clampDuty = (duty: number) => Math.min(Math.max(duty, 0), 1);
+
+  // Stress of a device that carries `level` (with peak-to-peak `ripplePP`) for a fraction `duty` of each period
+  const pulseStress = (name: string, count: number, duty: number, level: number, ripplePP: number, switchedCurrent: number, blockingVoltage: number): DeviceStress => ({
+    name,
+    count,
+    rms: Math.sqrt(duty * (level * level + (ripplePP * ripplePP) / 12)),
+    avg: duty * level,
+    peak: duty > 0 ? level + ripplePP / 2 : 0,
+    switched: duty > 0 && duty < 1 ? switchedCurrent : 0,
+    diodeAvg: 0,
+    diodeRms: 0,
+    recovered: 0,
+    recoveryEvents: 0,
+    deadTimeCurrent: 0,
+    deadTimeEvents: 0,
+    blockingVoltage,
+    paralleled: true,
+    // Length of each conduction pulse (s); continuous conduction is checked against the DC SOA line
+    onTime: duty >= 1 ? Infinity : duty / (switchingFrequency * 1000),
+  });
+
+  // Stress of a standalone freewheeling diode that carries `level` for a fraction `duty` of each period.
+  // It is not the transistor, so it never counts against the transistor's current rating.
+  const diodeStress = (name: string, duty: number, level: number, ripplePP: number, blockingVoltage: number): DeviceStress => ({
+    name,
+    count: 1,
+    rms: 0,
+    avg: 0,
+    peak: 0,
+    switched: 0,
+    diodeAvg: duty * level,
+    diodeRms: Math.sqrt(duty * (level * level + (ripplePP * ripplePP) / 12)),
+    recovered: duty > 0 && duty < 1 ? level : 0,
+    recoveryEvents: duty > 0 && duty < 1 ? 1 : 0,
+    deadTimeCurrent: 0,
+    deadTimeEvents: 0,
+    blockingVoltage,
+    paralleled: false,
+    onTime: 0,
+  });
+
+  // Complementary / freewheeling diode parameters are optional; without them no diode is modelled
+  const hasDiodeModel = (diodeVf || 0) > 0 || (qrr || 0) > 0 || (trr || 0) > 0;
+
+  // Stress of one switch in a sine-PWM bridge leg carrying peak phase current `peakCurrent`
+  const sinePwmStress = (name: string, count: number, peakCurrent: number): DeviceStress => {
+    const m = modulationIndex || 0.8;
+    const cosPhi = powerFactor ?? 1;
+    const ripplePP = ripple * peakCurrent;
+    return {
+      name,
+      count,
+      rms: peakCurrent * Math.sqrt(1 / 8 + (m * cosPhi) / (3 * Math.PI) + (ripple * ripple) / 24),
+      avg: peakCurrent * (1 / (2 * Math.PI) + (m * cosPhi) / 8),
+      peak: peakCurrent + ripplePP / 2,
+      switched: peakCurrent / Math.PI,
+      // The anti-parallel diode carries the current the switch does not, and recovers each time the
+      // complementary switch turns on during that half-cycle
+      diodeAvg: peakCurrent * Math.max(0, 1 / (2 * Math.PI) - (m * cosPhi) / 8),
+      diodeRms: peakCurrent * Math.sqrt(Math.max(0, 1 / 8 - (m * cosPhi) / (3 * Math.PI))),
+      recovered: peakCurrent / Math.PI,
+      recoveryEvents: 0.5,
+      // The complementary switch conducts in reverse during the dead time before it turns on. A diode
+      // model already carries the whole complementary interval, dead time included.
+      deadTimeCurrent: hasDiodeModel ? 0 : peakCurrent / Math.PI,
+      deadTimeEvents: 1,
+      blockingVoltage: busVoltage,
+      paralleled: true,
+      // Longest PWM pulse, at the crest of the modulation
+      onTime: Math.min(1, (1 + m) / 2) / (switchingFrequency * 1000),
+    };
+  };
+
+  // Stress of a DC switch carrying a sine-shaped current. It rises from and returns to zero, so
+  // there is no overlap loss and nothing for a freewheeling diode to take over.
+  const sineConductionStress = (rms: number, avg: number, peak: number, onTime: number): DeviceStress => ({
+    ...pulseStress('Switch', 1, 1, 0, 0, 0, busVoltage),
+    rms,
+    avg,
+    peak,
+    onTime,
+  });
+
+  // Per-device current stress for the selected topology at load current `current`
+  // (output current for DC-DC templates, peak phase current for bridges and inverters, and for
+  // a DC switch whatever its conduction waveform measures; see loadCurrentBasis).
+  // Each entry is one device role; `count` is how many identical devices share it.
+  const getDeviceStresses = (current: number): DeviceStress[] => {
+    switch (topology) {
+      case 'buck': {
+        const duty = clampDuty((outputVoltage || busVoltage / 2) / busVoltage);
+        return [
+          pulseStress('High-side switch', 1, duty, current, ripple * current, current, busVoltage),
+          ...(hasDiodeModel ? [diodeStress('Freewheeling diode', 1 - duty, current, ripple * current, busVoltage)] : []),
+        ];
+      }
+      case 'sync-buck': {
+        const duty = clampDuty((outputVoltage || busVoltage / 2) / busVoltage);
+        return [
+          pulseStress('High-side switch', 1, duty, current, ripple * current, current, busVoltage),
+          // The synchronous rectifier turns on after its body diode has taken the current, so it switches at ~0V,
+          // but that body diode is hard-recovered when the high-side switch turns on
+          {
+            ...pulseStress('Low-side synchronous rectifier', 1, 1 - duty, current, ripple * current, current, busVoltage),
+            switched: 0,
+            recovered: duty > 0 && duty < 1 ? current : 0,
+            recoveryEvents: duty > 0 && duty < 1 ? 1 : 0,
+            // It conducts in reverse through both dead times around each high-side pulse
+            deadTimeCurrent: duty > 0 && duty < 1 ? current : 0,
+            deadTimeEvents: 2,
+          },
+        ];
+      }
+      case 'boost': {
+        const boostedVoltage = outputVoltage || busVoltage * 2;
+        const duty = clampDuty(1 - busVoltage / boostedVoltage);
+        const inductorCurrent = duty < 1 ? current / (1 - duty) : 0;
+        return [
+          pulseStress('Low-side switch', 1, duty, inductorCurrent, ripple * inductorCurrent, inductorCurrent, boostedVoltage),
+          ...(hasDiodeModel ? [diodeStress('Boost diode', 1 - duty, inductorCurrent, ripple * inductorCurrent, boostedVoltage)] : []),
+        ];
+      }
+      case 'half-bridge':
+        return [sinePwmStress('Bridge switch', 2, current)];
+      case 'full-bridge':
+        return [sinePwmStress('Bridge switch', 4, current)];
+      case 'three-phase-inverter':
+        return [sinePwmStress('Inverter switch', 6, current)];
+      case 'dc-switch':
+      default: {
+        const duty = clampDuty(dutyCycle ?? (outputVoltage || busVoltage / 2) / busVoltage);
+        switch (conductionWaveform) {
+          case 'dc':
+            return [pulseStress('Switch', 1, 1, current, 0, current, busVoltage)];
+          case 'pwm':
+            return [
+              pulseStress('Switch', 1, duty, current, 0, current, busVoltage),
+              ...(hasDiodeModel ? [diodeStress('Freewheeling diode', 1 - duty, current, 0, busVoltage)] : []),
+            ];
+          // One half-sine pulse of crest `current` per period
+          case 'half-sine':
+            return [sineConductionStress(current / 2, current / Math.PI, current, 0.5 / (switchingFrequency * 1000))];
+          // A full sine of RMS `current`, rectified by the conduction model
+          case 'full-sine':
+            return [sineConductionStress(current, (2 * Math.SQRT2 * current) / Math.PI, Math.SQRT2 * current, Infinity)];
+          case 'trapezoid':
+          default:
+            return [
+              pulseStress('Switch', 1, duty, current, ripple * current, current, busVoltage),
+              ...(hasDiodeModel ? [diodeStress('Freewheeling diode', 1 - duty, current, ripple * current, busVoltage)] : []),
+            ];
+        }
+      }
+    }
+  };
+
+  // Datasheet Eon/Eoff/Erec (µJ) take over from the rise/fall time estimate whenever they are given
+  const useEnergyModel = (eon || 0) > 0 || (eoff || 0) > 0;
+
+  // Scale factor of datasheet switching energies for the junction temperature
+  const energyTempScale = (junctionTemp: number) => Math.max(0, 1 + ENERGY_TEMP_COEFF * (junctionTemp - (energyRefTemperature ?? 25)));
+
+  // SOFT SWITCHING - which edges dissipate. ZVS turns on once the resonant transition has emptied Coss,
+  // partial ZVS turns on from the voltage left on it, and ZCS commutates at zero current so neither edge
+  // has an overlap loss. Soft turn-on also lets the complementary diode recover without being hard-commutated.
+  const turnOnVoltageFraction = switchingMode === 'zvs' || switchingMode === 'zcs' ? 0
+    : switchingMode === 'partial-zvs' ? 1 - Math.min(Math.max(zvsFraction || 0, 0), 1)
+    : 1;
+  const turnOffFactor = switchingMode === 'zcs' ? 0 : 1;
+  const cossTurnOnFraction = switchingMode === 'zcs' ? 1 : turnOnVoltageFraction;
+  const hardRecovery = switchingMode !== 'zvs' && switchingMode !== 'zcs';
+
+  // Energy held in Coss at `voltage` (J), from a datasheet Eoss or ½·Coss·V²
+  const outputCapacitanceEnergy = (voltage: number) => {
+    if (voltage <= 0) return 0;
+    if (eoss && eoss > 0) return eoss * 1e-6 * Math.pow(voltage / (energyRefVoltage || maxVoltage), EOSS_VOLTAGE_EXPONENT);
+    return 0.5 * (coss || 0) * 1e-12 * voltage * voltage;
+  };
+
+  // Coss energy dumped into the channel at each hard or partial turn-on (J). Datasheet Eon already
+  // includes it, so with the energy model it is only added when ZCS removes the overlap part of Eon.
+  const capacitiveEnergy = (stress: DeviceStress) => {
+    if (stress.switched <= 0 || (useEnergyModel && switchingMode !== 'zcs')) return 0;
+    return outputCapacitanceEnergy(stress.blockingVoltage * cossTurnOnFraction);
+  };
+
+  // Switching energy per period (J), scaled from the datasheet test point to the actual voltage, current and Tj
+  const switchingEnergy = (stress: DeviceStress, junctionTemp: number) => {
+    const refVoltage = energyRefVoltage || maxVoltage;
+    const refCurrent = energyRefCurrent || maxCurrent;
+    return ((eon || 0) * Math.pow(turnOnVoltageFraction, ENERGY_VOLTAGE_EXPONENT) + (eoff || 0) * turnOffFactor) * 1e-6
+      * Math.pow(stress.blockingVoltage / refVoltage, ENERGY_VOLTAGE_EXPONENT)
+      * Math.pow(stress.switched / refCurrent, ENERGY_CURRENT_EXPONENT)
+      * energyTempScale(junctionTemp);
+  };
+
+  // Diode reverse recovery energy per period (J). Prefers a datasheet Erec, then Qrr (E ≈ ¼·Qrr·V), then
+  // estimates Qrr from trr assuming a triangular recovery with Irrm ≈ IF at the test current. Every model
+  // is scaled from the test point to the recovered current and Tj, once per recovery in the period.
+  const recoveryEnergy = (stress: DeviceStress, junctionTemp: number) => {
+    if (stress.recovered <= 0 || !hardRecovery) return 0;
+    const refVoltage = energyRefVoltage || maxVoltage;
+    const refCurrent = energyRefCurrent || maxCurrent;
+    let testEnergy = 0;
+    if (useEnergyModel && erec && erec > 0) {
+      testEnergy = erec * 1e-6 * Math.pow(stress.blockingVoltage / refVoltage, RECOVERY_VOLTAGE_EXPONENT);
+    } else if (qrr && qrr > 0) {
+      testEnergy = 0.25 * qrr * 1e-9 * stress.blockingVoltage;
+    } else if (trr && trr > 0) {
+      testEnergy = 0.25 * (0.5 * refCurrent * trr * 1e-9) * stress.blockingVoltage;
+    }
+    return testEnergy
+      * Math.pow(stress.recovered / refCurrent, RECOVERY_CURRENT_EXPONENT)
+      * energyTempScale(junctionTemp)
+      * stress.recoveryEvents;
+  };
+
+  const switchingLossModel: SimulationResult['switchingLossModel'] = useEnergyModel ? 'energy' : 'timing';
+
+  const calculateLosses = (stress: DeviceStress, junctionTemp: number): Losses => {
+    const scale = conductionScale(junctionTemp);
+    const pCond = isMosfetType(transistorType)
+      ? Math.pow(stress.rms, 2) * rdsOnOhms * scale
+      : stress.avg * (vceSat || 0) * scale;
+    const pCoss = capacitiveEnergy(stress) * (switchingFrequency * 1000);
+    const pSw = (useEnergyModel
+      ? switchingEnergy(stress, junctionTemp) * (switchingFrequency * 1000)
+      : 0.5 * stress.blockingVoltage * stress.switched * ((riseTime * turnOnVoltageFraction + fallTime * turnOffFactor) * 1e-9) * (switchingFrequency * 1000)) + pCoss;
+    // Reverse conduction through the dead time drops the GaN third-quadrant voltage, or the body diode's Vf
+    const pDeadTime = (reverseConductionVoltage || diodeVf || 0) * stress.deadTimeCurrent * stress.deadTimeEvents * ((deadTime || 0) * 1e-9) * (switchingFrequency * 1000);
+    const pDiode = (diodeVf || 0) * stress.diodeAvg + (diodeRdOhms || 0) * Math.pow(stress.diodeRms, 2) + pDeadTime;
+    const pRr = recoveryEnergy(stress, junctionTemp) * (switchingFrequency * 1000);
+    return {
+      total: pCond + pSw + pDiode + pRr,
+      conduction: pCond,
+      switching: pSw,
+      diodeConduction: pDiode,
+      reverseRecovery: pRr,
+      capacitive: pCoss,
+      deadTime: pDeadTime,
+    };
+  };
+
+  // PARALLEL DEVICES - worst-case current sharing within a bank of identical transistors.
+  // The hottest device is taken to have the lowest Rds(on)/Vce(sat) and the lowest Vth in the bank.
+  const VTH_OVERDRIVE = 2; // V, typical gate plateau above Vth; sets how far a Vth spread skews the switching current
+  const bankSize = Math.max(1, Math.round(parallelCount || 1));
+  const bankCurrentRating = maxCurrent * bankSize; // Upper end of the current sweep for the whole bank
+
+  // GATE DRIVE - switching times for the actual driver, from the gate charge. The drain current
+  // commutates while the gate charges from Vth to the plateau (taken as half of Qgs), and the drain
+  // voltage swings while Qgd is delivered on the Miller plateau. The plateau gate current is the
+  // driver's remaining swing across the total gate resistance, capped by the driver's peak current.
+  const solveGateDrive = (): GateDriveResult | undefined => {
+    if (!driveVoltage || !plateauVoltage || driveVoltage <= plateauVoltage) return undefined;
+    const gatedRoles = getDeviceStresses(maxCurrent).filter(stress => stress.paralleled);
+    const switchedVoltage = Math.max(...gatedRoles.map(stress => stress.blockingVoltage));
+    // Charges in nC; Crss and Ciss in pF stand in for a missing Qgd and Qgs
+    const millerCharge = qgd || (crss || 0) * 1e-3 * switchedVoltage;
+    const gateSourceCharge = qgs || (ciss || 0) * 1e-3 * plateauVoltage;
+    const totalResistance = (gateResistance || 0) + (externalGateResistance || 0);
+    const plateauCurrent = (swing: number, peakCurrent?: number) =>
+      Math.min(totalResistance > 0 ? swing / totalResistance : Infinity, peakCurrent || Infinity);
+    const turnOnGateCurrent = plateauCurrent(driveVoltage - plateauVoltage, driverSourceCurrent);
+    const turnOffGateCurrent = plateauCurrent(plateauVoltage, driverSinkCurrent);
+    if (millerCharge <= 0 || !Number.isFinite(turnOnGateCurrent) || !Number.isFinite(turnOffGateCurrent)) return undefined;
+
+    const transitionCharge = gateSourceCharge / 2 + millerCharge;
+    // Without a datasheet Qg, the gate keeps charging through Ciss from the plateau to the drive voltage
+    const gateCharge = qg || gateSourceCharge + millerCharge + (ciss || 0) * 1e-3 * (driveVoltage - plateauVoltage);
+    const gatePowerPerDevice = gateCharge * 1e-9 * driveVoltage * (switchingFrequency * 1000);
+    const gatedDevices = gatedRoles.reduce((sum, stress) => sum + stress.count, 0) * bankSize;
+    return {
+      riseTime: transitionCharge / turnOnGateCurrent, // nC / A = ns
+      fallTime: transitionCharge / turnOffGateCurrent,
+      datasheetRiseTime: params.riseTime,
+      datasheetFallTime: params.fallTime,
+      turnOnGateCurrent,
+      turnOffGateCurrent,
+      gateCharge,
+      gatePowerPerDevice,
+      gatePower: gatePowerPerDevice * gatedDevices,
+      gatedDevices,
+    };
+  };
+  const gateDrive = solveGateDrive();
+  const riseTime = gateDrive?.riseTime ?? params.riseTime; // ns
+  const fallTime = gateDrive?.fallTime ?? params.fallTime; // ns
+
+  // THERMAL STACK - junction → case (Rth j-c) → sink (TIM, Rth c-s) → ambient (cooler, Rth s-a).
+  // The heatsink carries `sinkDeviceCount` devices, each assumed to dissipate like the average device
+  // of the bank being solved; it never holds fewer than that bank.
+  const sinkLossFactor = (n: number) => Math.max(sinkDeviceCount || 1, n) / n;
+
+  // Conduction shares follow the temperature-scaled on-resistances, so a positive temperature coefficient
+  // pulls current away from the hotter device. The low-Vth device turns on first and off last, taking
+  // an extra slice of the switched current.
+  const bankShares = (n: number, worstTemp: number, otherTemp: number): { worst: CurrentShare; other: CurrentShare } => {
+    if (n === 1) return { worst: { conduction: 1, switching: 1 }, other: { conduction: 0, switching: 0 } };
+    const tolerance = (rdsOnTolerance || 0);
+    const worstConductance = 1 / ((1 - tolerance) * Math.max(conductionScale(worstTemp), 1e-6));
+    const otherConductance = 1 / ((1 + tolerance) * Math.max(conductionScale(otherTemp), 1e-6));
+    const bankConductance = worstConductance + (n - 1) * otherConductance;
+    const worstSwitching = Math.min(n, 1 + (vthSpread || 0) / VTH_OVERDRIVE) / n;
+    return {
+      worst: { conduction: worstConductance / bankConductance, switching: worstSwitching },
+      other: { conduction: otherConductance / bankConductance, switching: (1 - worstSwitching) / (n - 1) },
+    };
+  };
+
+  // Every current in a stress record is linear in the load current, so one device's share is a plain scale
+  const scaleStress = (stress: DeviceStress, share: CurrentShare): DeviceStress => ({
+    ...stress,
+    rms: stress.rms * share.conduction,
+    avg: stress.avg * share.conduction,
+    peak: stress.peak * share.conduction,
+    diodeAvg: stress.diodeAvg * share.conduction,
+    diodeRms: stress.diodeRms * share.conduction,
+    switched: stress.switched * share.switching,
+    recovered: stress.recovered * share.switching,
+    deadTimeCurrent: stress.deadTimeCurrent * share.conduction,
+  });
+
+  // Splits a device role's stress across its bank and returns the losses of the worst and the other devices
+  const bankLosses = (stress: DeviceStress, n: number, worstTemp: number, otherTemp: number) => {
+    const shares = bankShares(n, worstTemp, otherTemp);
+    const worstStress = scaleStress(stress, shares.worst);
+    const otherStress = scaleStress(stress, shares.other);
+    const losses = calculateLosses(worstStress, worstTemp);
+    const otherLosses = n > 1 ? calculateLosses(otherStress, otherTemp) : null;
+    return {
+      shares,
+      worstStress,
+      otherStress,
+      losses,
+      otherLosses,
+      bankLoss: losses.total + (n - 1) * (otherLosses ? otherLosses.total : 0),
+    };
+  };
+
+  // Iterates losses <-> junction temperature until Tj settles. Losses are linear in Tj, as closedFormTemperature
+  // uses, so the rise each degree of Tj feeds back (the loop gain) decides up front whether a fixed point exists.
+  // Paralleled devices share the cooler, so each one is heated by the whole bank's loss through it.
+  const solveJunctionTemperature = (bankStress: DeviceStress): DeviceSolution => {
+    const n = bankStress.paralleled ? bankSize : 1;
+    let junctionTemp = referenceTemperature;
+    let otherTemp = referenceTemperature;
+    let bank = bankLosses(bankStress, n, junctionTemp, otherTemp);
+
+    const sinkLoss = () => bank.bankLoss * sinkLossFactor(n);
+    // totalRth already carries the device's own loss through the sink, so only the rest of the sink's load is added
+    const nextTemps = () => ({
+      junction: referenceTemperature + (sinkLoss() - bank.losses.total) * coolerRth + bank.losses.total * totalRth,
+      other: bank.otherLosses
+        ? referenceTemperature + (sinkLoss() - bank.otherLosses.total) * coolerRth + bank.otherLosses.total * totalRth
+        : referenceTemperature,
+    });
+
+    const result = (converged: boolean): DeviceSolution => ({
+      junctionTemp,
+      losses: bank.losses,
+      converged,
+      bankLoss: bank.bankLoss,
+      sinkLoss: sinkLoss(),
+      stress: bank.worstStress,
+      bankStress,
+      parallel: bank.otherLosses ? {
+        count: n,
+        worstShare: bank.shares.worst.conduction,
+        otherShare: bank.shares.other.conduction,
+        otherTemp,
+        otherLosses: bank.otherLosses,
+        otherStress: bank.otherStress,
+      } : null,
+    });
+
+    const rise = nextTemps();
+    bank = bankLosses(bankStress, n, referenceTemperature + 1, referenceTemperature + 1);
+    const warmer = nextTemps();
+    const gain = Math.max(warmer.junction - rise.junction, warmer.other - rise.other);
+
+    if (gain >= 1) {
+      junctionTemp = rise.junction;
+      otherTemp = rise.other;
+      bank = bankLosses(bankStress, n, junctionTemp, otherTemp);
+      return result(false);
+    }
+
+    // Start from the linear fixed point, so the iterations only settle current sharing and clamped scaling
+    junctionTemp = referenceTemperature + (rise.junction - referenceTemperature) / (1 - gain);
+    otherTemp = referenceTemperature + (rise.other - referenceTemperature) / (1 - gain);
+    bank = bankLosses(bankStress, n, junctionTemp, otherTemp);
+
+    for (let i = 0; i < ELECTROTHERMAL_MAX_ITERATIONS; i++) {
+      const next = nextTemps();
+      const step = Math.max(Math.abs(next.junction - junctionTemp), Math.abs(next.other - otherTemp));
+      junctionTemp = next.junction;
+      otherTemp = next.other;
+      bank = bankLosses(bankStress, n, junctionTemp, otherTemp);
+
+      if (step < ELECTROTHERMAL_TOLERANCE) {
+        return result(true);
+      }
+    }
+
+    return result(false);
+  };
+
+  // Solves every device role and returns them with the limiting one (runaway first, then hottest)
+  const solveDevices = (current: number) => {
+    const devices = getDeviceStresses(current).map(solveJunctionTemperature);
+    const limiting = devices.reduce((worst, device) => {
+      if (worst.converged !== device.converged) return worst.converged ? device : worst;
+      return device.junctionTemp > worst.junctionTemp ? device : worst;
+    });
+    return { devices, limiting };
+  };
+
+  // Turn-off overshoot: the loop stray inductance (nH) drives V = V_bus + L·di/dt while the turn-off
+  // current collapses over the fall time. Devices that never hard-switch off see only the bus voltage.
+  const voltageLimit = maxVoltage * (voltageDerating || 1);
+  const peakBlockingVoltage = (stress: DeviceStress) => {
+    const turnOffCurrent = stress.switched > 0 ? stress.peak : 0;
+    const overshoot = fallTime > 0 ? ((strayInductance || 0) * 1e-9) * turnOffCurrent / (fallTime * 1e-9) : 0;
+    return stress.blockingVoltage + overshoot;
+  };
+
+  const voltageDetails = (stress: DeviceStress) => {
+    const peakVoltage = peakBlockingVoltage(stress);
+    const limit = voltageLimit < maxVoltage
+      ? `the derated limit of ${voltageLimit.toFixed(1)}V (${((voltageDerating || 1) * 100).toFixed(0)}% of ${maxVoltage}V)`
+      : `its max voltage rating of ${maxVoltage}V`;
+    return peakVoltage > stress.blockingVoltage
+      ? `The ${stress.name.toLowerCase()} sees ${peakVoltage.toFixed(1)}V at turn-off (${stress.blockingVoltage.toFixed(1)}V bus + ${(peakVoltage - stress.blockingVoltage).toFixed(1)}V overshoot), above ${limit}.`
+      : `The ${stress.name.toLowerCase()} blocks ${stress.blockingVoltage.toFixed(1)}V, above ${limit}.`;
+  };
+
+  // SAFE OPERATING AREA - datasheet (V, I) boundaries per pulse width, sorted shortest first with DC last
+  const soa = soaCurves || [];
+
+  // The applicable curve is the shortest one rated for at least this pulse; longer pulses fall back to DC
+  // (or the longest curve given when the datasheet has no DC line)
+  const soaCurveFor = (onTime: number) =>
+    soa.find((curve) => curve.pulseWidth !== null && curve.pulseWidth >= onTime)
+      ?? soa.find((curve) => curve.pulseWidth === null)
+      ?? soa[soa.length - 1];
+
+  // Allowed current at `voltage`, interpolated on log-log axes between the curve's points.
+  // Below the first point the current limit is flat; beyond the last one nothing is allowed.
+  const soaLimitAt = (curve: SoaCurve, voltage: number): { allowedCurrent: number; segment: [SoaPoint, SoaPoint] } => {
+    const points = curve.points;
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (voltage <= first.voltage) return { allowedCurrent: first.current, segment: [first, points[1]] };
+    if (voltage > last.voltage) return { allowedCurrent: 0, segment: [points[points.length - 2], last] };
+    let i = 1;
+    while (voltage > points[i].voltage) i++;
+    const from = points[i - 1];
+    const to = points[i];
+    const fraction = Math.log(voltage / from.voltage) / Math.log(to.voltage / from.voltage);
+    return {
+      allowedCurrent: Math.exp(Math.log(from.current) + fraction * Math.log(to.current / from.current)),
+      segment: [from, to],
+    };
+  };
+
+  // Checks every conducting device role at its blocking voltage and pulse duration and returns the most utilised one
+  const checkSoa = (devices: { stress: DeviceStress }[]) => {
+    if (soa.length === 0) return null;
+    let worst: SoaUtilisation | null = null;
+    for (const { stress } of devices) {
+      if (stress.peak <= 0) continue;
+      const curve = soaCurveFor(stress.onTime);
+      const { allowedCurrent, segment } = soaLimitAt(curve, stress.blockingVoltage);
+      const utilisation = allowedCurrent > 0 ? stress.peak / allowedCurrent : Infinity;
+      if (!worst || utilisation > worst.utilisation) {
+        worst = {
+          name: stress.name,
+          utilisation,
+          check: {
+            curve: curve.label,
+            pulseDuration: Number.isFinite(stress.onTime) ? stress.onTime : null,
+            voltage: stress.blockingVoltage,
+            current: stress.peak,
+            allowedCurrent,
+            segment,
+          },
+        };
+      }
+    }
+    return worst;
+  };
+
+  const formatSegment = ([from, to]: [SoaPoint, SoaPoint]) =>
+    `${from.voltage}V/${from.current}A → ${to.voltage}V/${to.current}A`;
+
+  // Node temperatures of one device's heat path
+  const thermalStack = (junctionTemp: number, caseTemp: number, sinkTemp: number, devicePowerLoss: number, sinkPowerLoss: number): ThermalStack => ({
+    junction: junctionTemp,
+    case: caseTemp,
+    heatsink: sinkTemp,
+    ambient: referenceTemperature,
+    rthJC,
+    rthCS: rthCS || 0,
+    rthSA: coolerRth,
+    devicePowerLoss,
+    sinkPowerLoss,
+    coolant: coolant && coolantState(coolant, sinkPowerLoss, ambientTemperature),
+  });
+
+  // Per-device view of a paralleled bank: the worst-case device and the rest of the bank
+  const parallelBreakdown = ({ parallel, junctionTemp, losses, stress }: DeviceSolution & { parallel: NonNullable<DeviceSolution['parallel']> }): ParallelDeviceResult[] => [
+    {
+      label: 'Lowest Rds(on) / Vth',
+      count: 1,
+      currentShare: parallel.worstShare,
+      rmsCurrent: stress.rms,
+      junctionTemperature: junctionTemp,
+      powerLoss: losses.total,
+    },
+    {
+      label: 'Rest of bank',
+      count: parallel.count - 1,
+      currentShare: parallel.otherShare,
+      rmsCurrent: parallel.otherStress.rms,
+      junctionTemperature: parallel.otherTemp,
+      powerLoss: parallel.otherLosses.total,
+    },
+  ];
+
+  const checkCurrent = (current: number): CheckResult => {
+    const { devices, limiting } = solveDevices(current);
+    const { junctionTemp, losses, converged, stress } = limiting;
+    const peakStress = devices.reduce((max, device) => device.stress.peak > max.peak ? device.stress : max, stress);
+    // Overshoot is set by the loop current, i.e. the whole bank turning off together
+    const voltageStress = devices.reduce((max, device) => peakBlockingVoltage(device.bankStress) > peakBlockingVoltage(max) ? device.bankStress : max, limiting.bankStress);
+    const peakVoltage = peakBlockingVoltage(voltageStress);
+    const soaStress = checkSoa(devices);
+    const pTotal = losses.total;
+    const pBank = limiting.bankLoss;
+    const finalTemp = junctionTemp;
+
+    let failureReason: FailureReason = null;
+    let details = '';
+
+    if (!converged) {
+      failureReason = 'Thermal Runaway';
+      details = `No electrothermal equilibrium in the ${stress.name.toLowerCase()} at ${current.toFixed(2)}A: losses grow faster with temperature than the cooling can remove them.`;
+    }
+    // Each mode reports the limit its fail condition below tests, ahead of limits it only passes over
+    else if (finalTemp > maxTemperature && simulationMode !== 'budget') {
+      failureReason = 'Thermal';
+      details = `Exceeded max junction temp of ${maxTemperature}°C. Reached ${finalTemp.toFixed(2)}°C.`;
+    }
+    else if (powerDissipation && pTotal > powerDissipation && simulationMode !== 'budget') {
+      failureReason = 'Power Dissipation';
+      details = `Exceeded component's max power dissipation of ${powerDissipation}W. Reached ${pTotal.toFixed(2)}W.`;
+    }
+    else if (pBank > effectiveCoolingBudget && simulationMode !== 'temp') {
+      failureReason = 'Cooling Budget';
+      details = `Exceeded cooling budget of ${effectiveCoolingBudget}W. Reached ${pBank.toFixed(2)}W.`;
+    }
+    else if (peakStress.peak > maxCurrent) {
+      failureReason = 'Current';
+      details = `Exceeded max current rating of ${maxCurrent.toFixed(2)}A. The ${peakStress.name.toLowerCase()} peaks at ${peakStress.peak.toFixed(2)}A.`;
+    }
+    else if (peakVoltage > voltageLimit) {
+      failureReason = 'Voltage';
+      details = voltageDetails(voltageStress);
+    }
+    else if (soaStress && soaStress.utilisation > 1) {
+      const { check } = soaStress;
+      failureReason = 'SOA';
+      details = check.allowedCurrent > 0
+        ? `The ${soaStress.name.toLowerCase()} carries ${check.current.toFixed(2)}A at ${check.voltage.toFixed(1)}V, outside the ${check.curve} SOA curve which allows ${check.allowedCurrent.toFixed(2)}A on segment ${formatSegment(check.segment)}.`
+        : `The ${soaStress.name.toLowerCase()} blocks ${check.voltage.toFixed(1)}V, beyond the end of the ${check.curve} SOA curve at ${check.segment[1].voltage}V.`;
+    }
+
+    let fail = !!failureReason;
+
+    if (simulationMode === 'temp') {
+      fail = !converged || finalTemp > maxTemperature;
+    } else if (simulationMode === 'budget') {
+      fail = !converged || pBank > effectiveCoolingBudget;
+    }
+
+    return {
+      isSafe: !fail,
+      failureReason,
+      details,
+      converged,
+      finalTemperature: finalTemp,
+      powerDissipation: losses,
+      bankPowerLoss: pBank,
+      thermalStack: thermalStack(junctionTemp, junctionTemp - losses.total * rthJC, referenceTemperature + limiting.sinkLoss * coolerRth, losses.total, limiting.sinkLoss),
+      peakCurrent: peakStress.peak,
+      peakVoltage,
+      limitingDevice: failureReason === 'Current' ? peakStress.name
+        : failureReason === 'Voltage' ? voltageStress.name
+        : failureReason === 'SOA' && soaStress ? soaStress.name
+        : stress.name,
+      soa: soaStress ? soaStress.check : undefined,
+      devices: devices.map((device) => ({
+        name: device.bankStress.name,
+        count: device.bankStress.count,
+        junctionTemperature: device.junctionTemp,
+        peakVoltage: peakBlockingVoltage(device.bankStress),
+        powerLoss: device.losses.total,
+        // Standalone diodes carry no transistor current, so report their diode current instead
+        rmsCurrent: device.bankStress.rms > 0 ? device.bankStress.rms : device.bankStress.diodeRms,
+        avgCurrent: device.bankStress.avg > 0 ? device.bankStress.avg : device.bankStress.diodeAvg,
+        parallel: device.parallel ? parallelBreakdown({ ...device, parallel: device.parallel }) : undefined,
+      })),
+    };
+  };
+
+  const addDataPoint = (current: number): LiveDataPoint & { checkResult: CheckResult } => {
+    const pointResult = checkCurrent(current);
+    const { isSafe, ...rest } = pointResult;
+
+    let progress = 0;
+    let limitValue = 0;
+    switch (simulationMode) {
+      case 'temp':
+        progress = (rest.finalTemperature / maxTemperature) * 100;
+        limitValue = maxTemperature;
+        break;
+      case 'budget':
+        progress = (rest.bankPowerLoss / effectiveCoolingBudget) * 100;
+        limitValue = effectiveCoolingBudget;
+        break;
+      case 'ftf':
+      default: {
+        const tempProgress = (rest.finalTemperature / maxTemperature) * 100;
+        const powerProgress = (powerDissipation && powerDissipation > 0) ? (rest.powerDissipation.total / powerDissipation) * 100 : 0;
+        const budgetProgress = (rest.bankPowerLoss / effectiveCoolingBudget) * 100;
+        const currentProgress = (rest.peakCurrent / maxCurrent) * 100;
+        // The bus voltage alone does not depend on the load current, so only the overshoot drives progress
+        const voltageProgress = strayInductance ? (rest.peakVoltage / voltageLimit) * 100 : 0;
+        const soaProgress = rest.soa ? (rest.soa.allowedCurrent > 0 ? (rest.soa.current / rest.soa.allowedCurrent) * 100 : 100) : 0;
+        progress = Math.max(tempProgress, powerProgress, budgetProgress, currentProgress, voltageProgress, soaProgress);
+        limitValue = 100;
+        break;
+      }
+    }
+
+    return {
+      current,
+      temperature: rest.finalTemperature,
+      powerLoss: rest.powerDissipation.total,
+      conductionLoss: rest.powerDissipation.conduction,
+      switchingLoss: rest.powerDissipation.switching,
+      diodeConductionLoss: rest.powerDissipation.diodeConduction,
+      reverseRecoveryLoss: rest.powerDissipation.reverseRecovery,
+      progress: Math.min(progress, 100),
+      limitValue,
+      checkResult: pointResult
+    };
+  };
+
+  // CONSTRAINT MARGINS - the current at which each limit alone would be reached
+  const MARGIN_SEARCH_DOUBLINGS = 8;
+  const MARGIN_BISECTION_ITERATIONS = 30;
+
+  // value(check) must not fall as the current rises; enforced mirrors which limits end the run in checkCurrent
+  const constraints: Constraint[] = [
+    { reason: 'Thermal', unit: '°C', limit: maxTemperature, enforced: simulationMode !== 'budget', applies: true,
+      value: (check) => check.finalTemperature },
+    { reason: 'Power Dissipation', unit: 'W', limit: powerDissipation || 0, enforced: simulationMode === 'ftf', applies: (powerDissipation || 0) > 0,
+      value: (check) => check.powerDissipation.total },
+    { reason: 'Cooling Budget', unit: 'W', limit: effectiveCoolingBudget, enforced: simulationMode !== 'temp', applies: true,
+      value: (check) => check.bankPowerLoss },
+    { reason: 'Current', unit: 'A', limit: maxCurrent, enforced: simulationMode === 'ftf', applies: true,
+      value: (check) => check.peakCurrent },
+    { reason: 'Voltage', unit: 'V', limit: voltageLimit, enforced: simulationMode === 'ftf', applies: true,
+      value: (check) => check.peakVoltage },
+    { reason: 'SOA', unit: '× allowed', limit: 1, enforced: simulationMode === 'ftf', applies: soa.length > 0,
+      value: (check) => (check.soa ? (check.soa.allowedCurrent > 0 ? check.soa.current / check.soa.allowedCurrent : Infinity) : 0) },
+  ];
+
+  // Without an electrothermal equilibrium every quantity keeps growing, so a runaway exceeds every limit
+  const constraintValue = (constraint: Constraint, check: CheckResult) => (check.converged ? constraint.value(check) : Infinity);
+
+  // A limit other than Thermal that is only crossed where the loop runs away is never reached on its own;
+  // the runaway is what Thermal covers
+  const boundedByRunaway: Pick<ConstraintMargin, 'limitCurrent' | 'boundedBy'> = { limitCurrent: null, boundedBy: 'Thermal Runaway' };
+
+  // limitCurrent is null when the constraint is still met at 2^MARGIN_SEARCH_DOUBLINGS times the bank's current rating
+  const limitCurrentFor = (constraint: Constraint): Pick<ConstraintMargin, 'limitCurrent' | 'boundedBy'> => {
+    const exceeds = (current: number) => constraintValue(constraint, checkCurrent(current)) > constraint.limit;
+    if (exceeds(0)) return { limitCurrent: 0 };
+    let low = 0;
+    let high = bankCurrentRating;
+    for (let doublings = 0; !exceeds(high); doublings++) {
+      if (doublings >= MARGIN_SEARCH_DOUBLINGS) return { limitCurrent: null };
+      low = high;
+      high *= 2;
+    }
+    for (let i = 0; i < MARGIN_BISECTION_ITERATIONS; i++) {
+      const mid = (low + high) / 2;
+      if (exceeds(mid)) high = mid;
+      else low = mid;
+    }
+    return constraint.reason !== 'Thermal' && !checkCurrent(high).converged ? boundedByRunaway : { limitCurrent: low };
+  };
+
+  const solvedLimitCurrent = (constraint: Constraint, solvedLimits: SolvedLimits): Pick<ConstraintMargin, 'limitCurrent' | 'boundedBy'> => {
+    const solved = solvedLimits[constraint.reason] ?? Infinity;
+    const runaway = solvedLimits['Thermal Runaway'] ?? Infinity;
+    if (constraint.reason !== 'Thermal' && Number.isFinite(runaway) && solved >= runaway) return boundedByRunaway;
+    return { limitCurrent: Number.isFinite(solved) ? solved : null };
+  };
+
+  // Ranked from the first limit reached to the last, unreached limits at the end
+  const constraintMargins = (maxSafeCurrent: number, solvedLimits: SolvedLimits | null = null): ConstraintMargin[] | undefined => {
+    if (skipMargins) return undefined;
+    const operatingPoint = checkCurrent(maxSafeCurrent);
+    return constraints
+      .filter((constraint) => constraint.applies)
+      .map((constraint) => {
+        const { limitCurrent, boundedBy } = solvedLimits ? solvedLimitCurrent(constraint, solvedLimits) : limitCurrentFor(constraint);
+        const value = constraintValue(constraint, operatingPoint);
+        return {
+          reason: constraint.reason,
+          enforced: constraint.enforced,
+          limit: constraint.limit,
+          value: Number.isFinite(value) ? value : null,
+          unit: constraint.unit,
+          limitCurrent,
+          margin: limitCurrent === null ? null : limitCurrent - maxSafeCurrent,
+          ...(boundedBy && { boundedBy }),
+        };
+      })
+      .sort((a, b) => (a.limitCurrent ?? Infinity) - (b.limitCurrent ?? Infinity));
+  };
+
+  // ANALYTIC SOLVER - at a fixed junction temperature every loss term is a quadratic in the load current,
+  // and Tj = Ta + P·Rth is linear in the loss, so each constraint's current has a closed form.
+  // Returns a reason why it does not apply, so the caller can fall back to the binary search.
+  const ANALYTIC_CHART_POINTS = 60;
+  const analyticFallbackReason = () => {
+    if (bankSize > 1) return 'current sharing in a paralleled bank depends on each device\'s temperature';
+    if (soa.length > 0) return 'SOA curves are interpolated on log-log axes';
+    if (hardRecovery && ((useEnergyModel && (erec || 0) > 0) || (qrr || 0) > 0 || (trr || 0) > 0)) {
+      return `reverse recovery scales with current to the power ${RECOVERY_CURRENT_EXPONENT}`;
+    }
+    return null;
+  };
+
+  // Junction-to-ambient resistance seen by a lone device, including the other devices heating the sink
+  const effectiveRth = totalRth + (sinkLossFactor(1) - 1) * coolerRth;
+  // Sample spacing for fitting the loss quadratic; zero current is avoided as recovery losses switch on above it
+  const ANALYTIC_SAMPLE = Math.max(maxCurrent, 1) / 4;
+
+  const deviceLoss = (index: number, current: number, junctionTemp: number) => calculateLosses(getDeviceStresses(current)[index], junctionTemp).total;
+
+  // a·I² + b·I + c for one device role at a fixed junction temperature, fitted exactly through three samples
+  const lossQuadratic = (index: number, junctionTemp: number) => {
+    const step = ANALYTIC_SAMPLE;
+    const [p1, p2, p3] = [1, 2, 3].map((k) => deviceLoss(index, k * step, junctionTemp));
+    const a = (p3 - 2 * p2 + p1) / (2 * step * step);
+    const b = (p2 - p1) / step - 3 * a * step;
+    return { a, b, c: p1 - a * step * step - b * step };
+  };
+
+  // Smallest current at which the quadratic reaches `target`
+  const solveQuadratic = ({ a, b, c }: { a: number; b: number; c: number }, target: number) => {
+    if (target <= c) return 0;
+    if (a > 1e-15) return (-b + Math.sqrt(b * b - 4 * a * (c - target))) / (2 * a);
+    return b > 0 ? (target - c) / b : Infinity;
+  };
+
+  // A linear function of current, from two samples
+  const solveLinear = (valueAt: (current: number) => number, target: number) => {
+    const v1 = valueAt(ANALYTIC_SAMPLE);
+    const slope = (valueAt(2 * ANALYTIC_SAMPLE) - v1) / ANALYTIC_SAMPLE;
+    const v0 = v1 - slope * ANALYTIC_SAMPLE;
+    if (v0 > target) return 0;
+    return slope > 0 ? (target - v0) / slope : Infinity;
+  };
+
+  // Loss at temperature T is linear in T (p0 + slope·(T - 25)), so the electrothermal fixed point is direct
+  const closedFormTemperature = (index: number, current: number) => {
+    const p0 = deviceLoss(index, current, 25);
+    const slope = deviceLoss(index, current, 26) - p0;
+    return (referenceTemperature + effectiveRth * (p0 - 25 * slope)) / (1 - effectiveRth * slope);
+  };
+
+  // Current at which each constraint alone is reached and the loop runs away, or null if it would run away
+  // before the temperature limit
+  const analyticLimits = (): SolvedLimits | null => {
+    const roles = getDeviceStresses(ANALYTIC_SAMPLE).map((_, index) => index);
+    const minOverRoles = (solve: (index: number) => number) => Math.min(...roles.map(solve));
+    // Losses that hold the junction at the temperature they produce
+    const lossLimit = (loss: number) => minOverRoles((index) => solveQuadratic(lossQuadratic(index, referenceTemperature + loss * effectiveRth), loss));
+
+    const thermal = maxTemperature <= referenceTemperature ? 0 : minOverRoles((index) => {
+      const current = solveQuadratic(lossQuadratic(index, maxTemperature), (maxTemperature - referenceTemperature) / effectiveRth);
+      const loopGain = (deviceLoss(index, current, maxTemperature + 1) - deviceLoss(index, current, maxTemperature)) * effectiveRth;
+      return loopGain >= 1 ? NaN : current;
+    });
+    if (Number.isNaN(thermal)) return null;
+
+    return {
+      'Thermal': thermal,
+      'Power Dissipation': powerDissipation && powerDissipation > 0 ? lossLimit(powerDissipation) : Infinity,
+      'Cooling Budget': lossLimit(effectiveCoolingBudget),
+      'Current': minOverRoles((index) => solveLinear((current) => getDeviceStresses(current)[index].peak, maxCurrent)),
+      'Voltage': minOverRoles((index) => solveLinear((current) => peakBlockingVoltage(getDeviceStresses(current)[index]), voltageLimit)),
+      // The loss slope against temperature is itself a quadratic in current; the loop runs away where it reaches 1/Rth
+      'Thermal Runaway': minOverRoles((index) => {
+        const [cool, hot] = [25, 26].map((junctionTemp) => lossQuadratic(index, junctionTemp));
+        return solveQuadratic({ a: hot.a - cool.a, b: hot.b - cool.b, c: hot.c - cool.c }, 1 / effectiveRth);
+      }),
+    };
+  };
+
+  const analyticDetails = (reason: LimitReason, current: number, check: CheckResult) => {
+    switch (reason) {
+      case 'Thermal': return `Reaches the max junction temp of ${maxTemperature}°C at ${current.toFixed(2)}A.`;
+      case 'Power Dissipation': return `Reaches the component's max power dissipation of ${powerDissipation}W at ${current.toFixed(2)}A.`;
+      case 'Cooling Budget': return `Reaches the cooling budget of ${effectiveCoolingBudget}W at ${current.toFixed(2)}A.`;
+      case 'Current': return `Reaches the max current rating of ${maxCurrent.toFixed(2)}A at ${current.toFixed(2)}A load.`;
+      default: return `The turn-off voltage reaches the ${voltageLimit.toFixed(1)}V limit at ${current.toFixed(2)}A (${check.peakVoltage.toFixed(1)}V peak).`;
+    }
+  };
+
+  // Chart curve from the closed-form junction temperature of the hottest device role
+  const analyticDataPoint = (current: number, maxSafeCurrent: number): LiveDataPoint => {
+    const stresses = getDeviceStresses(current);
+    const temperatures = stresses.map((_, index) => closedFormTemperature(index, current));
+    const hottest = temperatures.indexOf(Math.max(...temperatures));
+    const losses = calculateLosses(stresses[hottest], temperatures[hottest]);
+    return {
+      current,
+      temperature: temperatures[hottest],
+      powerLoss: losses.total,
+      conductionLoss: losses.conduction,
+      switchingLoss: losses.switching,
+      diodeConductionLoss: losses.diodeConduction,
+      reverseRecoveryLoss: losses.reverseRecovery,
+      progress: maxSafeCurrent > 0 ? (current / maxSafeCurrent) * 100 : 100,
+      limitValue: 100,
+    };
+  };
+
+  // TRANSIENT THERMAL SIMULATION - Tj(t) for a step, pulse-train or mission-profile load
+  const TRANSIENT_MAX_STEPS = 200000;
+  const TRANSIENT_BISECTION_ITERATIONS = 24;
+  const TRANSIENT_MAX_SAMPLES = 150; // Matches the chart's point budget so the whole profile stays visible
+
+  // Mission profiles are (time s, current A, ambient °C) samples, linearly interpolated between rows
+  const mission = missionProfile ?? [];
+  const isMission = loadProfile === 'mission' && mission.length >= 2;
+  const missionPeak = isMission ? Math.max(...mission.map((row) => row.current)) : 0;
+  const transientDurationS = isMission ? mission[mission.length - 1].time - mission[0].time : (transientDuration || 0);
+
+  const missionCursor = () => {
+    let index = 0;
+    return (time: number) => {
+      while (index < mission.length - 2 && mission[index + 1].time <= time) index++;
+      const from = mission[index];
+      const to = mission[index + 1];
+      const fraction = Math.min(Math.max((time - from.time) / (to.time - from.time), 0), 1);
+      // A chiller-held inlet does not follow the profile's ambient column
+      const ambientAt = (row: typeof from) => coolant?.inletTemperature ?? row.ambient ?? ambientTemperature;
+      return {
+        current: from.current + fraction * (to.current - from.current),
+        ambient: ambientAt(from) + fraction * (ambientAt(to) - ambientAt(from)),
+      };
+    };
+  };
+
+  // Stresses of the device role that dissipates the most at `amplitude`, split the way a paralleled
+  // bank shares current at ambient; the rest of the bank only heats the shared cooler
+  const transientStresses = (amplitude: number) => {
+    const onBankStress = getDeviceStresses(amplitude).reduce((worst, stress) =>
+      calculateLosses(stress, referenceTemperature).total > calculateLosses(worst, referenceTemperature).total ? stress : worst
+    );
+    const n = onBankStress.paralleled ? bankSize : 1;
+    const { shares } = bankLosses(onBankStress, n, referenceTemperature, referenceTemperature);
+    const onStress = scaleStress(onBankStress, shares.worst);
+    return { onBankStress, n, onStress, otherStress: scaleStress(onBankStress, shares.other) };
+  };
+
+  // Steps the Foster Zth(j-c) network in series with the cooler's single RC stage.
+  // Each element is advanced with its exact exponential response to a constant power step.
+  // A mission profile is scaled so that its peak current equals `amplitude`.
+  const simulateTransient = (amplitude: number, onSample?: (point: LiveDataPoint) => void, history?: number[]) => {
+    const isPulse = loadProfile === 'pulse' && !isMission;
+    const durationS = transientDurationS;
+    const widthS = (pulseWidth || 0) / 1000;
+    const periodS = (pulsePeriod || 0) / 1000;
+    const missionStep = isMission
+      ? Math.min(...mission.slice(1).map((row, i) => row.time - mission[i].time)) / 2
+      : 0;
+
+    const dt = isPulse
+      ? Math.max(Math.min(widthS / 20, durationS / 1000), durationS / TRANSIENT_MAX_STEPS)
+      : isMission
+      ? Math.max(Math.min(missionStep, durationS / 1000), durationS / TRANSIENT_MAX_STEPS)
+      : durationS / 1000;
+    const totalSteps = Math.ceil(durationS / dt);
+    const missionAt = isMission ? missionCursor() : null;
+
+    // The TIM's heat capacity is negligible, so case-to-sink is one more instantaneous stage
+    const network = [...fosterNetwork, { r: rthCS || 0, tau: 0 }].map(({ r, tau }) => ({ r, decay: tau > 0 ? Math.exp(-dt / tau) : 0 }));
+    const coolerTau = coolerRth * coolerCapacitance;
+    const coolerDecay = coolerTau > 0 ? Math.exp(-dt / coolerTau) : 0;
+
+    const fosterRise = network.map(() => 0);
+    let coolerRise = 0;
+    const { onBankStress, n, onStress, otherStress } = transientStresses(amplitude);
+    const offStress = { ...onStress, rms: 0, avg: 0, peak: 0, switched: 0, diodeAvg: 0, diodeRms: 0, recovered: 0, recoveryEvents: 0, deadTimeCurrent: 0 };
+
+    let peak: TransientState = { temperature: referenceTemperature, caseTemperature: referenceTemperature, sinkTemperature: referenceTemperature, sinkLoss: 0, time: 0, losses: calculateLosses(offStress, referenceTemperature) };
+    let last = peak;
+
+    const binSize = Math.max(1, Math.ceil(totalSteps / Math.min(precisionSteps, TRANSIENT_MAX_SAMPLES)));
+    let binPeak: LiveDataPoint | null = null;
+
+    for (let step = 0; step < totalSteps; step++) {
+      const time = step * dt;
+      const missionPoint = missionAt ? missionAt(mission[0].time + time) : null;
+      const loadFactor = missionPoint ? (missionPeak > 0 ? missionPoint.current / missionPeak : 0) : 1;
+      const isOn = missionPoint ? loadFactor > 0 : !isPulse || (time % periodS) < widthS;
+      const current = isOn ? amplitude * loadFactor : 0;
+      const ambient = missionPoint ? missionPoint.ambient : referenceTemperature;
+      const share = { conduction: loadFactor, switching: loadFactor };
+      const stepStress = !isOn ? offStress : loadFactor === 1 ? onStress : scaleStress(onStress, share);
+      const stepOtherStress = loadFactor === 1 ? otherStress : scaleStress(otherStress, share);
+      const startTemp = ambient + coolerRise + fosterRise.reduce((sum, rise) => sum + rise, 0);
+      const losses = calculateLosses(stepStress, startTemp);
+      const bankLoss = losses.total + (isOn && n > 1 ? (n - 1) * calculateLosses(stepOtherStress, startTemp).total : 0);
+      const sinkLoss = bankLoss * sinkLossFactor(n);
+
+      for (let i = 0; i < network.length; i++) {
+        fosterRise[i] = fosterRise[i] * network[i].decay + losses.total * network[i].r * (1 - network[i].decay);
+      }
+      coolerRise = coolerRise * coolerDecay + sinkLoss * coolerRth * (1 - coolerDecay);
+
+      const junctionTemp = ambient + coolerRise + fosterRise.reduce((sum, rise) => sum + rise, 0);
+      // The last stage of the network is the TIM, so the case sits that far above the sink
+      const caseTemperature = ambient + coolerRise + fosterRise[fosterRise.length - 1];
+      last = { temperature: junctionTemp, caseTemperature, sinkTemperature: ambient + coolerRise, sinkLoss, time: time + dt, losses };
+      if (history) {
+        history.push(junctionTemp);
+      }
+      if (junctionTemp > peak.temperature) {
+        peak = last;
+      }
+
+      if (onSample) {
+        if (!binPeak || junctionTemp >= binPeak.temperature) {
+          binPeak = {
+            time: time + dt,
+            current,
+            temperature: junctionTemp,
+            powerLoss: losses.total,
+            conductionLoss: losses.conduction,
+            switchingLoss: losses.switching,
+            diodeConductionLoss: losses.diodeConduction,
+            reverseRecoveryLoss: losses.reverseRecovery,
+            progress: Math.min((junctionTemp / maxTemperature) * 100, 100),
+            limitValue: maxTemperature,
+          };
+        }
+        if (step % binSize === binSize - 1 || step === totalSteps - 1) {
+          onSample(binPeak);
+          binPeak = null;
+        }
+      }
+    }
+
+    return { peak, last, device: onStress, bankStress: onBankStress };
+  };
+
+  // OVERLOAD - how long a constant current switched on from ambient lasts before Tj reaches its limit.
+  // Time constants run from the die's microseconds to the cooler's minutes, so every step is a little
+  // longer than the last; each stage still advances with its exact exponential response.
+  const OVERLOAD_STEP_GROWTH = 1.02;
+  const OVERLOAD_SETTLED_TAUS = 7; // Within 0.1% of steady state after this many of the slowest time constants
+  const OVERLOAD_CURVE_POINTS = 12;
+
+  const overloadStages = [...fosterNetwork, { r: rthCS || 0, tau: 0 }];
+  const coolerTimeConstant = coolerRth * coolerCapacitance;
+  const overloadTaus = [...overloadStages.map((stage) => stage.tau), coolerTimeConstant].filter((tau) => tau > 0);
+  const overloadFirstStep = overloadTaus.length > 0 ? Math.min(...overloadTaus) / 20 : 1e-6;
+  const overloadHorizon = Math.max(OVERLOAD_SETTLED_TAUS * Math.max(0, ...overloadTaus), overloadFirstStep);
+
+  const settlesBelowLimit = (amplitude: number) => {
+    const { limiting } = solveDevices(amplitude);
+    return limiting.converged && limiting.junctionTemp <= maxTemperature;
+  };
+
+  // Heats the network at `amplitude` until Tj crosses the limit or settles. `timeToLimit` is null when it settles
+  // below the limit. Steps never exceed `maxStep`, and `onSample` sees the state at every multiple of it.
+  const heatUntilLimit = (amplitude: number, maxStep = Infinity, onSample?: (point: LiveDataPoint) => void) => {
+    const { onBankStress, n, onStress, otherStress } = transientStresses(amplitude);
+    // A loop that runs away or settles above the limit in steady state crosses it eventually, however slowly
+    // it approaches near unity loop gain, so it keeps heating past the horizon until it does
+    const crossesLimit = !settlesBelowLimit(amplitude);
+    let steps = 0;
+    const rises = overloadStages.map(() => 0);
+    let coolerRise = 0;
+    let dt = Math.min(overloadFirstStep, maxStep);
+    let nextSample = maxStep;
+    let state: TransientState = { temperature: referenceTemperature, caseTemperature: referenceTemperature, sinkTemperature: referenceTemperature, sinkLoss: 0, time: 0, losses: calculateLosses(onStress, referenceTemperature) };
+    let timeToLimit: number | null = null;
+
+    while (state.time < overloadHorizon || (crossesLimit && steps < TRANSIENT_MAX_STEPS)) {
+      steps++;
+      const losses = calculateLosses(onStress, state.temperature);
+      const bankLoss = losses.total + (n > 1 ? (n - 1) * calculateLosses(otherStress, state.temperature).total : 0);
+      const sinkLoss = bankLoss * sinkLossFactor(n);
+      overloadStages.forEach(({ r, tau }, i) => {
+        const decay = tau > 0 ? Math.exp(-dt / tau) : 0;
+        rises[i] = rises[i] * decay + losses.total * r * (1 - decay);
+      });
+      const coolerDecay = coolerTimeConstant > 0 ? Math.exp(-dt / coolerTimeConstant) : 0;
+      coolerRise = coolerRise * coolerDecay + sinkLoss * coolerRth * (1 - coolerDecay);
+
+      const previous = state;
+      const temperature = referenceTemperature + coolerRise + rises.reduce((sum, rise) => sum + rise, 0);
+      state = {
+        temperature,
+        caseTemperature: referenceTemperature + coolerRise + rises[rises.length - 1],
+        sinkTemperature: referenceTemperature + coolerRise,
+        sinkLoss,
+        time: previous.time + dt,
+        losses,
+      };
+
+      if (onSample && (state.time >= nextSample || temperature >= maxTemperature)) {
+        nextSample += maxStep;
+        onSample({
+          time: state.time,
+          current: amplitude,
+          temperature,
+          powerLoss: losses.total,
+          conductionLoss: losses.conduction,
+          switchingLoss: losses.switching,
+          diodeConductionLoss: losses.diodeConduction,
+          reverseRecoveryLoss: losses.reverseRecovery,
+          progress: Math.min((temperature / maxTemperature) * 100, 100),
+          limitValue: maxTemperature,
+        });
+      }
+      if (temperature >= maxTemperature) {
+        // The crossing falls inside this step; interpolate it rather than report the step's end
+        timeToLimit = previous.time + (dt * (maxTemperature - previous.temperature)) / (temperature - previous.temperature);
+        break;
+      }
+      dt = Math.min(dt * OVERLOAD_STEP_GROWTH, maxStep);
+    }
+
+    return { timeToLimit, state, device: onStress, bankStress: onBankStress };
+  };
+
+  // POWER CYCLING LIFETIME - rainflow counting of the Tj history and Miner's rule damage
+  const LIFETIME_MIN_SWING = 0.5; // °C, smaller swings are numerical ripple rather than thermal cycles
+  const LIFETIME_HISTOGRAM_BINS = 10;
+  const GAS_CONSTANT = 8.314; // J/(mol·K)
+
+  // Cycles to failure for a swing `deltaT` around mean junction temperature `meanT` (°C)
+  const LIFETIME_MODELS: Record<LifetimeResult['model'], (deltaT: number, meanT: number) => number> = {
+    // LESIT (Held et al.): Nf = A·ΔTj^α·exp(Ea / (R·Tj,mean)), A = 640, α = -5, Ea = 78 kJ/mol
+    lesit: (deltaT, meanT) => 640 * Math.pow(deltaT, -5) * Math.exp(7.8e4 / (GAS_CONSTANT * (meanT + 273.15))),
+    // Coffin-Manson: Nf = A·ΔTj^-n with n = 5, A matched to LESIT at Tj,mean = 80°C
+    'coffin-manson': (deltaT) => 2.2e14 * Math.pow(deltaT, -5),
+  };
+
+  // Local extrema of the series; rainflow counting only looks at reversals
+  const reversals = (series: number[]) => {
+    const points: number[] = [];
+    for (const value of series) {
+      const count = points.length;
+      if (count > 0 && value === points[count - 1]) continue;
+      if (count >= 2 && (value - points[count - 1]) * (points[count - 1] - points[count - 2]) > 0) {
+        points[count - 1] = value; // Still moving the same way, extend the current half cycle
+      } else {
+        points.push(value);
+      }
+    }
+    return points;
+  };
+
+  // Three-point rainflow counting (ASTM E1049). Unclosed ranges in the residue count as half cycles.
+  const rainflow = (series: number[]) => {
+    const cycles: Cycle[] = [];
+    const stack: number[] = [];
+    const addCycle = (a: number, b: number, count: number) => cycles.push({ range: Math.abs(a - b), mean: (a + b) / 2, count });
+    for (const point of reversals(series)) {
+      stack.push(point);
+      while (stack.length >= 3) {
+        const x = Math.abs(stack[stack.length - 1] - stack[stack.length - 2]);
+        const y = Math.abs(stack[stack.length - 2] - stack[stack.length - 3]);
+        if (x < y) break;
+        if (stack.length === 3) {
+          addCycle(stack[0], stack[1], 0.5);
+          stack.shift();
+        } else {
+          addCycle(stack[stack.length - 2], stack[stack.length - 3], 1);
+          stack.splice(stack.length - 3, 2);
+        }
+      }
+    }
+    for (let i = 1; i < stack.length; i++) {
+      addCycle(stack[i - 1], stack[i], 0.5);
+    }
+    return cycles.filter((cycle) => cycle.range >= LIFETIME_MIN_SWING);
+  };
+
+  const histogram = (cycles: (Cycle & { damage: number })[], key: 'range' | 'mean'): HistogramBin[] => {
+    if (cycles.length === 0) return [];
+    const min = Math.min(...cycles.map((cycle) => cycle[key]));
+    const max = Math.max(...cycles.map((cycle) => cycle[key]));
+    const width = (max - min) / LIFETIME_HISTOGRAM_BINS || 1;
+    const bins = Array.from({ length: LIFETIME_HISTOGRAM_BINS }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, cycles: 0, damage: 0 }));
+    for (const cycle of cycles) {
+      const bin = bins[Math.min(Math.floor((cycle[key] - min) / width), LIFETIME_HISTOGRAM_BINS - 1)];
+      bin.cycles += cycle.count;
+      bin.damage += cycle.damage;
+    }
+    return bins;
+  };
+
+  // Damage of one pass through the profile and the lifetime it implies when the profile repeats
+  const estimateLifetime = (history: number[], durationS: number): LifetimeResult => {
+    const model = LIFETIME_MODELS[lifetimeModel] ? lifetimeModel : 'lesit';
+    const cyclesToFailure = LIFETIME_MODELS[model];
+    const cycles = rainflow(history).map((cycle) => {
+      const nf = cyclesToFailure(cycle.range, cycle.mean);
+      return { ...cycle, cyclesToFailure: nf, damage: cycle.count / nf };
+    });
+    const damage = cycles.reduce((sum, cycle) => sum + cycle.damage, 0);
+    const worst = cycles.reduce<(typeof cycles)[number] | null>((max, cycle) => (!max || cycle.range > max.range ? cycle : max), null);
+    return {
+      model,
+      cycles: cycles.reduce((sum, cycle) => sum + cycle.count, 0),
+      consumedLife: damage * 100,
+      // null when no swing is large enough to wear the device
+      repetitionsToFailure: damage > 0 ? 1 / damage : null,
+      lifetimeHours: damage > 0 ? durationS / damage / 3600 : null,
+      worstCycle: worst ? { deltaTj: worst.range, meanTj: worst.mean, cyclesToFailure: worst.cyclesToFailure } : null,
+      deltaTjHistogram: histogram(cycles, 'range'),
+      meanTjHistogram: histogram(cycles, 'mean'),
+    };
+  };
+
+  const reportProgress = progressReporter(post);
+
+  if (simulationMode === 'transient' && loadProfile === 'overload') {
+    // The charted run, the continuous-current bisection, and one run per point of the overload curve
+    const OVERLOAD_RUNS = 1 + TRANSIENT_BISECTION_ITERATIONS + 1 + OVERLOAD_CURVE_POINTS;
+    let completedRuns = 0;
+    const heat = (amplitude: number) => {
+      const run = heatUntilLimit(amplitude);
+      completedRuns++;
+      reportProgress((completedRuns / OVERLOAD_RUNS) * 100);
+      return run;
+    };
+
+    const overloadCurrent = pulseCurrent || 0;
+    const firstPass = heat(overloadCurrent);
+    // Chart up to the limit (or to steady state) on an even time grid
+    const chartEnd = Math.max(firstPass.timeToLimit ?? overloadHorizon, overloadFirstStep);
+    const data: LiveDataPoint[] = [];
+    const { timeToLimit, state, device, bankStress } = heatUntilLimit(overloadCurrent, chartEnd / TRANSIENT_MAX_SAMPLES, (point) => data.push(point));
+    post({ type: 'transientBatch', data });
+
+    // Peak current is proportional to the load current, so the device rating caps the overload curve here
+    const ratedCurrent = Math.min(bankCurrentRating, maxCurrent / (transientStresses(1).onStress.peak || Infinity));
+
+    // Highest current that settles below the limit; anything above it only lasts a while. Currents whose
+    // steady state runs away or exceeds the limit are never continuous, so the search stays below them.
+    let continuousCurrent = 0;
+    let high = ratedCurrent;
+    if (!settlesBelowLimit(high)) {
+      let settled = 0;
+      for (let i = 0; i < TRANSIENT_BISECTION_ITERATIONS; i++) {
+        const mid = (settled + high) / 2;
+        if (settlesBelowLimit(mid)) settled = mid;
+        else high = mid;
+      }
+      high = settled;
+    }
+    if (heat(high).timeToLimit === null) {
+      continuousCurrent = high;
+    } else {
+      for (let i = 0; i < TRANSIENT_BISECTION_ITERATIONS; i++) {
+        const mid = (continuousCurrent + high) / 2;
+        if (heat(mid).timeToLimit === null) {
+          continuousCurrent = mid;
+        } else {
+          high = mid;
+        }
+      }
+    }
+    // A point whose crossing lies beyond even TRANSIENT_MAX_STEPS is left out
+    const curve = continuousCurrent < ratedCurrent
+      ? Array.from({ length: OVERLOAD_CURVE_POINTS }, (_, i) => {
+          const current = continuousCurrent + ((ratedCurrent - continuousCurrent) * (i + 1)) / OVERLOAD_CURVE_POINTS;
+          const duration = heat(current).timeToLimit;
+          return duration === null ? [] : [{ current, duration }];
+        }).flat()
+      : [];
+
+    let failureReason: FailureReason = null;
+    let details = `Tj settles at ${state.temperature.toFixed(2)}°C, below the ${maxTemperature}°C limit, so ${overloadCurrent.toFixed(2)}A can be carried indefinitely.`;
+    if (device.peak > maxCurrent) {
+      failureReason = 'Current';
+      details = `The ${device.name.toLowerCase()} peaks at ${device.peak.toFixed(2)}A, above the max current rating of ${maxCurrent.toFixed(2)}A.`;
+    } else if (timeToLimit !== null) {
+      failureReason = 'Thermal';
+      details = `Switched on at ambient, ${overloadCurrent.toFixed(2)}A takes Tj to the ${maxTemperature}°C limit in ${timeToLimit.toPrecision(3)}s.`;
+    }
+
+    post({
+      type: 'complete',
+      result: {
+        status: 'success',
+        maxSafeCurrent: continuousCurrent,
+        failureReason,
+        details,
+        finalTemperature: state.temperature,
+        powerDissipation: state.losses,
+        limitingDevice: device.name,
+        switchingLossModel,
+        gateDrive,
+        parallelCount: bankSize,
+        peakVoltage: peakBlockingVoltage(bankStress),
+        thermalStack: thermalStack(state.temperature, state.caseTemperature, state.sinkTemperature, state.losses.total, state.sinkLoss),
+        transient: {
+          peakTemperature: state.temperature,
+          peakTime: state.time,
+          duration: state.time,
+        },
+        overload: {
+          current: overloadCurrent,
+          timeToLimit,
+          continuousCurrent,
+          coolerTimeConstant,
+          curve,
+        },
+      }
+    });
+    return;
+  }
+
+  if (simulationMode === 'transient') {
+    const BATCH_SIZE = 10;
+    // The charted run plus every amplitude tried by the bisection below
+    const TRANSIENT_RUNS = TRANSIENT_BISECTION_ITERATIONS + 2;
+    let batch: LiveDataPoint[] = [];
+    let completedRuns = 0;
+    const history: number[] = [];
+
+    const { peak, last, device, bankStress } = simulateTransient(isMission ? missionPeak : (pulseCurrent || 0), (point) => {
+      batch.push(point);
+      if (batch.length >= BATCH_SIZE) {
+        post({ type: 'transientBatch', data: [...batch] });
+        batch = [];
+      }
+      reportProgress((((point.time ?? 0) / transientDurationS) * 100) / TRANSIENT_RUNS);
+    }, history);
+    completedRuns++;
+    const lifetime = estimateLifetime(history, last.time);
+
+    if (batch.length > 0) {
+      post({ type: 'transientBatch', data: [...batch] });
+    }
+
+    // Largest load amplitude whose peak Tj stays within the limit without exceeding the device current rating or SOA
+    const isSafeAmplitude = (amplitude: number) => {
+      const run = simulateTransient(amplitude);
+      completedRuns++;
+      reportProgress((completedRuns / TRANSIENT_RUNS) * 100);
+      const soaStress = checkSoa([{ stress: run.device }]);
+      return run.peak.temperature <= maxTemperature && run.device.peak <= maxCurrent
+        && peakBlockingVoltage(run.bankStress) <= voltageLimit && !(soaStress && soaStress.utilisation > 1);
+    };
+    let low = 0;
+    let high = bankCurrentRating;
+    if (isSafeAmplitude(high)) {
+      low = high;
+    } else {
+      for (let i = 0; i < TRANSIENT_BISECTION_ITERATIONS; i++) {
+        const mid = (low + high) / 2;
+        if (isSafeAmplitude(mid)) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+    }
+
+    const deviceSoa = checkSoa([{ stress: device }]);
+    let failureReason: FailureReason = null;
+    let details = `Peak junction temperature of ${peak.temperature.toFixed(2)}°C at t = ${peak.time.toFixed(3)}s stays within the ${maxTemperature}°C limit.`;
+    if (peak.temperature > maxTemperature) {
+      failureReason = 'Thermal';
+      details = `Exceeded max junction temp of ${maxTemperature}°C during the load profile. Reached ${peak.temperature.toFixed(2)}°C at t = ${peak.time.toFixed(3)}s.`;
+    } else if (device.peak > maxCurrent) {
+      failureReason = 'Current';
+      details = `The ${device.name.toLowerCase()} peaks at ${device.peak.toFixed(2)}A, above the max current rating of ${maxCurrent.toFixed(2)}A.`;
+    } else if (peakBlockingVoltage(bankStress) > voltageLimit) {
+      failureReason = 'Voltage';
+      details = voltageDetails(bankStress);
+    } else if (deviceSoa && deviceSoa.utilisation > 1) {
+      const { check } = deviceSoa;
+      failureReason = 'SOA';
+      details = check.allowedCurrent > 0
+        ? `The ${device.name.toLowerCase()} carries ${check.current.toFixed(2)}A at ${check.voltage.toFixed(1)}V, outside the ${check.curve} SOA curve which allows ${check.allowedCurrent.toFixed(2)}A on segment ${formatSegment(check.segment)}.`
+        : `The ${device.name.toLowerCase()} blocks ${check.voltage.toFixed(1)}V, beyond the end of the ${check.curve} SOA curve at ${check.segment[1].voltage}V.`;
+    }
+
+    post({
+      type: 'complete',
+      result: {
+        status: 'success',
+        maxSafeCurrent: low,
+        failureReason,
+        details,
+        finalTemperature: last.temperature,
+        powerDissipation: peak.losses,
+        limitingDevice: device.name,
+        switchingLossModel,
+        gateDrive,
+        parallelCount: bankSize,
+        soa: deviceSoa ? deviceSoa.check : undefined,
+        peakVoltage: peakBlockingVoltage(bankStress),
+        thermalStack: thermalStack(peak.temperature, peak.caseTemperature, peak.sinkTemperature, peak.losses.total, peak.sinkLoss),
+        transient: {
+          peakTemperature: peak.temperature,
+          peakTime: peak.time,
+          duration: last.time,
+        },
+        lifetime,
+      }
+    });
+    return;
+  }
+
+  // ANALYTIC ALGORITHM - closed-form limits, falling through to the binary search when a model is non-linear
+  let analyticFallback: string | null = null;
+  if (simulationAlgorithm === 'analytic') {
+    analyticFallback = analyticFallbackReason();
+    const limits = analyticFallback ? null : analyticLimits();
+    if (!analyticFallback && !limits) analyticFallback = 'the electrothermal loop runs away before the temperature limit';
+
+    const limitOf = (constraint: Constraint) => limits?.[constraint.reason] ?? Infinity;
+    const enforced = limits && constraints.filter((constraint) => constraint.applies && constraint.enforced);
+    const binding = enforced && enforced.reduce((min, constraint) => (limitOf(constraint) < limitOf(min) ? constraint : min));
+    const runaway = limits?.['Thermal Runaway'] ?? Infinity;
+
+    if (binding && Number.isFinite(limitOf(binding)) && limitOf(binding) < runaway) {
+      const maxSafeCurrent = limitOf(binding);
+      post({
+        type: 'dataBatch',
+        data: Array.from({ length: ANALYTIC_CHART_POINTS + 1 }, (_, i) => analyticDataPoint((i / ANALYTIC_CHART_POINTS) * maxSafeCurrent, maxSafeCurrent)),
+      });
+
+      const finalCheck = checkCurrent(maxSafeCurrent);
+      post({
+        type: 'complete',
+        result: {
+          status: 'success',
+          maxSafeCurrent,
+          failureReason: binding.reason,
+          details: analyticDetails(binding.reason, maxSafeCurrent, finalCheck),
+          finalTemperature: finalCheck.finalTemperature,
+          powerDissipation: finalCheck.powerDissipation,
+          limitingDevice: finalCheck.limitingDevice,
+          switchingLossModel,
+          gateDrive,
+          parallelCount: bankSize,
+          devices: finalCheck.devices,
+          soa: finalCheck.soa,
+          peakVoltage: finalCheck.peakVoltage,
+          thermalStack: finalCheck.thermalStack,
+          margins: constraintMargins(maxSafeCurrent, limits),
+        }
+      });
+      return;
+    }
+    analyticFallback = analyticFallback || (Number.isFinite(runaway) ? 'the electrothermal loop runs away before any enforced limit' : 'no enforced limit is reached');
+  }
+
+  // ITERATIVE ALGORITHM - Runs uninterrupted with batched messages
+  if (simulationAlgorithm === 'iterative') {
+    let maxSafeCurrent = 0;
+    const maxCurrentRange = bankCurrentRating * 1.2;
+    const BATCH_SIZE = 10; // Send 10 points per message to reduce postMessage overhead
+    let batch: LiveDataPoint[] = [];
+
+    for (let i = 0; i <= precisionSteps; i++) {
+      const current = i * (maxCurrentRange / precisionSteps);
+      const dataPoint = addDataPoint(current);
+
+      batch.push(dataPoint);
+      // The sweep stops at the first limit, so the closest limit sets progress once it is ahead of the sweep
+      reportProgress(Math.max(i / precisionSteps, dataPoint.progress / 100) * 100);
+
+      // Send batch when full or at specific intervals
+      if (batch.length >= BATCH_SIZE) {
+        post({
+          type: 'dataBatch',
+          data: [...batch]
+        });
+        batch = [];
+      }
+
+      if (dataPoint.checkResult.isSafe) {
+        maxSafeCurrent = current;
+      } else {
+        // Send any remaining points in batch
+        if (batch.length > 0) {
+          post({
+            type: 'dataBatch',
+            data: [...batch]
+          });
+        }
+
+        // Simulation ended
+        const finalResult: SimulationResult = {
+          status: 'success',
+          maxSafeCurrent: maxSafeCurrent,
+          failureReason: dataPoint.checkResult.failureReason,
+          details: dataPoint.checkResult.details,
+          finalTemperature: dataPoint.checkResult.finalTemperature,
+          powerDissipation: dataPoint.checkResult.powerDissipation,
+          limitingDevice: dataPoint.checkResult.limitingDevice,
+          switchingLossModel,
+          gateDrive,
+          parallelCount: bankSize,
+          devices: dataPoint.checkResult.devices,
+          soa: dataPoint.checkResult.soa,
+          peakVoltage: dataPoint.checkResult.peakVoltage,
+          thermalStack: dataPoint.checkResult.thermalStack,
+          margins: constraintMargins(maxSafeCurrent),
+        };
+
+        post({
+          type: 'complete',
+          result: finalResult
+        });
+        return;
+      }
+    }
+
+    // Send any remaining points in batch
+    if (batch.length > 0) {
+      post({
+        type: 'dataBatch',
+        data: [...batch]
+      });
+    }
+
+    // Completed without failure
+    const finalCheck = checkCurrent(maxSafeCurrent);
+    const result: SimulationResult = {
+      status: 'success',
+      maxSafeCurrent: maxSafeCurrent,
+      failureReason: null,
+      details: `Device operates safely up to ${maxSafeCurrent.toFixed(2)}A within all limits.`,
+      finalTemperature: finalCheck.finalTemperature,
+      powerDissipation: finalCheck.powerDissipation,
+      limitingDevice: finalCheck.limitingDevice,
+      switchingLossModel,
+      gateDrive,
+      parallelCount: bankSize,
+      devices: finalCheck.devices,
+      soa: finalCheck.soa,
+      peakVoltage: finalCheck.peakVoltage,
+      thermalStack: finalCheck.thermalStack,
+      margins: constraintMargins(maxSafeCurrent),
+    };
+
+    post({
+      type: 'complete',
+      result: result
+    });
+  }
+
+  // BINARY SEARCH ALGORITHM
+  else {
+    let low = 0;
+    let high = bankCurrentRating * 1.5;
+    const initialBracket = high;
+    let maxSafeCurrent = 0;
+    let iterationCount = 0;
+    let bound: CheckResult | null = null; // Check of the lowest failing probe, i.e. the limit that bounded the search
+    const tolerance = binaryTolerance && binaryTolerance > 0 ? binaryTolerance : 0.01; // A
+    const maxIterations = binaryMaxIterations && binaryMaxIterations > 0 ? binaryMaxIterations : Math.log2(high - low) * 15;
+
+    while (high - low >= tolerance && iterationCount < maxIterations) {
+      const mid = (low + high) / 2;
+      if (mid <= 0) break;
+
+      const dataPoint = addDataPoint(mid);
+
+      // Send data point to main thread
+      post({
+        type: 'dataPoint',
+        data: dataPoint
+      });
+
+      if (dataPoint.checkResult.isSafe) {
+        maxSafeCurrent = mid;
+        low = mid;
+      } else {
+        high = mid;
+        bound = dataPoint.checkResult;
+      }
+
+      iterationCount++;
+      // Each probe halves the bracket, so progress is how far it has narrowed towards the tolerance on a log scale
+      reportProgress(Math.max(iterationCount / maxIterations, Math.log2(initialBracket / (high - low)) / Math.log2(initialBracket / tolerance)) * 100);
+    }
+
+    const convergence = {
+      tolerance,
+      bracket: high - low,
+      iterations: iterationCount,
+      converged: high - low < tolerance,
+    };
+    const convergenceNote = convergence.converged
+      ? `Bracketed to ±${(convergence.bracket / 2).toFixed(3)}A in ${iterationCount} iterations.`
+      : `Stopped at the ${iterationCount}-iteration cap with a ${convergence.bracket.toFixed(3)}A bracket, wider than the ${tolerance}A tolerance.`;
+
+    const finalCheck = checkCurrent(maxSafeCurrent);
+    const result: SimulationResult = {
+      status: 'success',
+      maxSafeCurrent: maxSafeCurrent,
+      failureReason: bound ? bound.failureReason : null,
+      details: bound
+        ? `Limited between ${maxSafeCurrent.toFixed(2)}A and ${high.toFixed(2)}A. ${bound.details} ${convergenceNote}`
+        : `Device operates safely up to ${maxSafeCurrent.toFixed(2)}A within all limits. ${convergenceNote}`,
+      finalTemperature: finalCheck.finalTemperature,
+      powerDissipation: finalCheck.powerDissipation,
+      limitingDevice: bound ? bound.limitingDevice : finalCheck.limitingDevice,
+      convergence,
+      switchingLossModel,
+      gateDrive,
+      parallelCount: bankSize,
+      devices: finalCheck.devices,
+      soa: finalCheck.soa,
+      peakVoltage: finalCheck.peakVoltage,
+      thermalStack: finalCheck.thermalStack,
+      margins: constraintMargins(maxSafeCurrent),
+      analyticFallback,
+    };
+
+    post({
+      type: 'complete',
+      result: result
+    });
+  }
+};
+
+// Runs `params` to completion and returns the result with every chart point reported on the way.
+// This is the synchronous entry point for server actions, AI flows and scripts.
+export const simulate = (params: EngineParams) => {
+  const data: LiveDataPoint[] = [];
+  let result = null as SimulationResult | null;
+  runSimulation(params, (message) => {
+    if (message.type === 'dataPoint') data.push(message.data);
+    else if (message.type === 'dataBatch' || message.type === 'transientBatch') data.push(...message.data);
+    else if (message.type === 'complete') result = message.result;
+  });
+  if (!result) throw new Error('The simulation finished without a result.');
+  return { result, data };
+};
+
+// Limit search without progress reporting: closed form where possible, otherwise a binary search
+const searchLimit = (params: EngineParams) => {
+  const { result } = simulate({ ...params, simulationAlgorithm: 'analytic', skipMargins: true });
+  return { result, limit: result.failureReason };
+};
+
+// MONTE CARLO TOLERANCE ANALYSIS - repeats the binary search for parts drawn from the spec distributions
+const MONTE_CARLO_HISTOGRAM_BINS = 20;
+const MONTE_CARLO_CHART_POINTS = 100;
+
+// Small seeded PRNG so a run can be reproduced from its seed
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const percentile = (sorted: number[], p: number) => {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+export const runMonteCarlo = (params: EngineParams, post: (message: EngineMessage) => void) => {
+  const { monteCarloSamples, monteCarloSeed, tolerances } = params;
+  // The dominant limit and the percentiles are read off the samples, so there has to be at least one
+  if (!(monteCarloSamples >= 1)) throw new Error('A Monte Carlo analysis needs at least one sample.');
+  const seed = monteCarloSeed ?? Math.floor(Math.random() * 4294967296);
+  const random = mulberry32(seed);
+
+  // Box-Muller transform
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+  // A ±spread is the 3σ bound of a normal distribution (truncated there, as datasheet max values are
+  // guaranteed) or the half-width of a uniform one
+  const sampleFactor = (tolerance?: ToleranceSpread) => {
+    if (!tolerance || !(tolerance.spread > 0)) return 1;
+    const deviation = tolerance.shape === 'uniform'
+      ? 2 * random() - 1
+      : Math.max(-3, Math.min(3, gaussian())) / 3;
+    return Math.max(0.01, 1 + tolerance.spread * deviation);
+  };
+
+  const samplePart = (): EngineParams => {
+    const conduction = sampleFactor(tolerances.conduction);
+    const rthJCFactor = sampleFactor(tolerances.rthJC);
+    const coolerFactor = sampleFactor(tolerances.coolerRth);
+    const switching = sampleFactor(tolerances.switching);
+    const rthJC = params.rthJC * rthJCFactor;
+    const coolerRth = params.coolerRth * coolerFactor;
+    return {
+      ...params,
+      rdsOnOhms: params.rdsOnOhms * conduction,
+      vceSat: (params.vceSat || 0) * conduction,
+      rthJC,
+      coolerRth,
+      totalRth: params.totalRth + (rthJC - params.rthJC) + (coolerRth - params.coolerRth),
+      fosterNetwork: (params.fosterNetwork || []).map(({ r, tau }) => ({ r: r * rthJCFactor, tau })),
+      riseTime: params.riseTime * switching,
+      fallTime: params.fallTime * switching,
+      eon: (params.eon || 0) * switching,
+      eoff: (params.eoff || 0) * switching,
+      qg: (params.qg || 0) * switching,
+      qgs: (params.qgs || 0) * switching,
+      qgd: (params.qgd || 0) * switching,
+    };
+  };
+
+  const reportProgress = progressReporter(post);
+  const nominal = searchLimit(params);
+  const samples: { maxSafeCurrent: number; limit: FailureReason }[] = [];
+  const chartEvery = Math.max(1, Math.floor(monteCarloSamples / MONTE_CARLO_CHART_POINTS));
+  let batch: LiveDataPoint[] = [];
+
+  for (let i = 0; i < monteCarloSamples; i++) {
+    const { result, limit } = searchLimit(samplePart());
+    samples.push({ maxSafeCurrent: result.maxSafeCurrent, limit });
+    reportProgress(((i + 1) / monteCarloSamples) * 100);
+
+    if (i % chartEvery === chartEvery - 1 || i === monteCarloSamples - 1) {
+      batch.push({
+        current: result.maxSafeCurrent,
+        temperature: result.finalTemperature,
+        powerLoss: result.powerDissipation.total,
+        conductionLoss: result.powerDissipation.conduction,
+        switchingLoss: result.powerDissipation.switching,
+        diodeConductionLoss: result.powerDissipation.diodeConduction,
+        reverseRecoveryLoss: result.powerDissipation.reverseRecovery,
+        progress: ((i + 1) / monteCarloSamples) * 100,
+        limitValue: 100,
+      });
+      if (batch.length >= 10 || i === monteCarloSamples - 1) {
+        post({ type: 'dataBatch', data: [...batch] });
+        batch = [];
+      }
+    }
+  }
+
+  const sorted = samples.map((sample) => sample.maxSafeCurrent).sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const standardDeviation = Math.sqrt(sorted.reduce((sum, value) => sum + (value - mean) * (value - mean), 0) / sorted.length);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / MONTE_CARLO_HISTOGRAM_BINS || 1;
+  const histogram = Array.from({ length: MONTE_CARLO_HISTOGRAM_BINS }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  for (const value of sorted) {
+    histogram[Math.min(Math.floor((value - min) / width), MONTE_CARLO_HISTOGRAM_BINS - 1)].count++;
+  }
+
+  const limitCounts = new Map<FailureReason, number>();
+  for (const { limit } of samples) {
+    limitCounts.set(limit, (limitCounts.get(limit) || 0) + 1);
+  }
+  const limits: MonteCarloResult['limits'] = Array.from(limitCounts, ([reason, count]) => ({ reason, count })).sort((a, b) => b.count - a.count);
+  const dominant = limits[0];
+
+  const p5 = percentile(sorted, 0.05);
+  const p50 = percentile(sorted, 0.5);
+  const p95 = percentile(sorted, 0.95);
+
+  post({
+    type: 'complete',
+    result: {
+      ...nominal.result,
+      maxSafeCurrent: p5,
+      failureReason: dominant.reason,
+      details: `95% of ${monteCarloSamples} sampled parts stay within all limits up to ${p5.toFixed(2)}A (P50 ${p50.toFixed(2)}A, P95 ${p95.toFixed(2)}A). `
+        + (dominant.reason
+          ? `The ${dominant.reason.toLowerCase()} limit capped ${((dominant.count / monteCarloSamples) * 100).toFixed(0)}% of samples.`
+          : 'No limit was reached within the searched range for most samples.'),
+      monteCarlo: {
+        samples: monteCarloSamples,
+        seed,
+        nominalMaxSafeCurrent: nominal.result.maxSafeCurrent,
+        p5,
+        p50,
+        p95,
+        mean,
+        standardDeviation,
+        min,
+        max,
+        histogram,
+        limits,
+      },
+    },
+  });
+};
+
+// Single run entry point: Monte Carlo analysis or one engine run, as selected by the algorithm
+export const runSimulation = (params: EngineParams, post: (message: EngineMessage) => void) => {
+  if (params.simulationAlgorithm === 'monte-carlo') {
+    runMonteCarlo(params, post);
+  } else {
+    runEngine(params, post);
+  }
+};
+
+// PARAMETER SWEEP - one limit search per grid point, each already converted by the caller
+export const runSweep = (points: EngineParams[], post: (message: SweepMessage) => void) => {
+  // Transient runs already report the limit of their bisection
+  const runPoint = (params: EngineParams) => {
+    if (params.simulationMode !== 'transient') return searchLimit(params);
+    const { result } = simulate(params);
+    return { result, limit: result.failureReason };
+  };
+
+  points.forEach((params, index) => {
+    const { result, limit } = runPoint(params);
+    post({
+      type: 'sweepCell',
+      index,
+      progress: ((index + 1) / points.length) * 100,
+      result: { maxSafeCurrent: result.maxSafeCurrent, failureReason: limit, finalTemperature: result.finalTemperature },
+    });
+  });
+  post({ type: 'complete', result: null });
+};
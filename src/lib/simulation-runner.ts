@@ -0,0 +1,170 @@
+import type { EngineMessage, EngineParams, LiveDataPoint, SimulationResult, SweepMessage, WorkerRequest, WorkerResponse } from './types';
+
+// Rejects the result of a run that was stopped, so callers can tell a stop from a failure
+export class SimulationCancelledError extends Error {
+  constructor(runId: number) {
+    super(`Simulation run ${runId} was cancelled.`);
+    this.name = 'SimulationCancelledError';
+  }
+}
+
+export interface SimulationRun<T> {
+  id: number;
+  result: Promise<T>;
+  cancel: () => void;
+}
+
+type ProgressMessage = Exclude<EngineMessage | SweepMessage, { type: 'complete' }>;
+
+interface Job {
+  id: number;
+  request: WorkerRequest;
+  onMessage: (message: ProgressMessage) => void;
+  resolve: (result: SimulationResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+// One pool worker and the job it is running; workers are started on first use
+interface Slot {
+  worker: Worker | null;
+  job: Job | null;
+}
+
+const defaultPoolSize = () => (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 4;
+
+// Merges the runs of a fanned-out batch into one run that resolves when they all have.
+// The first failure rejects the batch, so the runs still queued or running behind it are cancelled too.
+const combineRuns = <T>(runs: SimulationRun<unknown>[], result: () => T): SimulationRun<T> => {
+  // Later runs are still queued, so cancelling them first keeps the earlier ones from starting them
+  const cancel = () => [...runs].reverse().forEach(run => run.cancel());
+  return {
+    id: runs[0]?.id ?? 0,
+    result: Promise.all(runs.map(run => run.result)).then(result, (error) => {
+      cancel();
+      throw error;
+    }),
+    cancel,
+  };
+};
+
+// Runs simulations on a pool of workers, handing queued jobs to whichever worker is free in
+// the order they were submitted. Workers echo each run's ID, so messages still in flight from a
+// cancelled run are dropped instead of reaching the run that replaced it.
+export const createSimulationRunner = (size = defaultPoolSize()) => {
+  let nextId = 1;
+  const slots: Slot[] = Array.from({ length: Math.max(1, size) }, () => ({ worker: null, job: null }));
+  const queue: Job[] = [];
+
+  const finish = (slot: Slot) => {
+    slot.job = null;
+    dispatch();
+  };
+
+  // The engine runs synchronously, so a run in progress can only be stopped with its worker
+  const discardWorker = (slot: Slot) => {
+    slot.worker?.terminate();
+    slot.worker = null;
+  };
+
+  const spawn = (slot: Slot) => {
+    const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url));
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const { runId, ...message } = e.data;
+      const job = slot.job;
+      if (!job || runId !== job.id) return;
+      if (message.type === 'complete') {
+        job.resolve(message.result);
+        finish(slot);
+      } else {
+        job.onMessage(message);
+      }
+    };
+    worker.onerror = (error) => {
+      const job = slot.job;
+      discardWorker(slot);
+      if (!job) return;
+      job.reject(new Error(error.message || 'The simulation worker stopped unexpectedly.'));
+      finish(slot);
+    };
+    return worker;
+  };
+
+  const dispatch = () => {
+    for (const slot of slots) {
+      if (queue.length === 0) return;
+      if (slot.job) continue;
+      const job = queue.shift()!;
+      slot.job = job;
+      slot.worker ??= spawn(slot);
+      slot.worker.postMessage(job.request);
+    }
+  };
+
+  const cancel = (id: number) => {
+    const index = queue.findIndex(job => job.id === id);
+    if (index >= 0) {
+      queue.splice(index, 1)[0].reject(new SimulationCancelledError(id));
+      return;
+    }
+    const slot = slots.find(s => s.job?.id === id);
+    if (!slot?.job) return;
+    slot.job.reject(new SimulationCancelledError(id));
+    discardWorker(slot);
+    finish(slot);
+  };
+
+  const submit = (request: Omit<WorkerRequest, 'runId'>, onMessage: Job['onMessage']): SimulationRun<SimulationResult | null> => {
+    const id = nextId++;
+    const result = new Promise<SimulationResult | null>((resolve, reject) => {
+      queue.push({ id, request: { ...request, runId: id } as WorkerRequest, onMessage, resolve, reject });
+    });
+    dispatch();
+    return { id, result, cancel: () => cancel(id) };
+  };
+
+  return {
+    // One simulation; chart points and percent complete are streamed while it runs
+    simulate: (params: EngineParams, handlers: { onData: (point: LiveDataPoint) => void; onProgress?: (progress: number) => void }): SimulationRun<SimulationResult> => {
+      const run = submit({ params }, message => {
+        if (message.type === 'progress') handlers.onProgress?.(message.progress);
+        else if (message.type === 'dataPoint') handlers.onData(message.data);
+        else if (message.type === 'dataBatch' || message.type === 'transientBatch') message.data.forEach(handlers.onData);
+      });
+      return { ...run, result: run.result as Promise<SimulationResult> };
+    },
+    // Independent simulations spread across the pool; each result is reported as soon as it finishes
+    simulateMany: (paramsList: EngineParams[], onResult: (index: number, result: SimulationResult) => void): SimulationRun<SimulationResult[]> => {
+      const results: SimulationResult[] = [];
+      const runs = paramsList.map((params, index) => {
+        const run = submit({ params }, () => {});
+        run.result.then(result => {
+          results[index] = result!;
+          onResult(index, result!);
+        }, () => {});
+        return run;
+      });
+      return combineRuns(runs, () => results);
+    },
+    // A grid of limit searches, one job per point; each cell is reported as soon as it is solved
+    sweep: (points: EngineParams[], onCell: (message: SweepMessage & { type: 'sweepCell' }) => void): SimulationRun<null> => {
+      let solved = 0;
+      const runs = points.map((params, index) => submit({ sweep: [params] }, message => {
+        if (message.type !== 'sweepCell') return;
+        solved++;
+        onCell({ ...message, index, progress: (solved / points.length) * 100 });
+      }));
+      return combineRuns(runs, () => null);
+    },
+    // Cancels every queued and running job and shuts the workers down; they restart on the next submit
+    terminate: () => {
+      queue.splice(0).forEach(job => job.reject(new SimulationCancelledError(job.id)));
+      for (const slot of slots) {
+        slot.job?.reject(new SimulationCancelledError(slot.job.id));
+        slot.job = null;
+        discardWorker(slot);
+      }
+    },
+  };
+};
+
+export type SimulationRunner = ReturnType<typeof createSimulationRunner>;
@@ -0,0 +1,13 @@
+import { runSimulation, runSweep } from './simulation-engine';
+import type { EngineMessage, SweepMessage, WorkerRequest, WorkerResponse } from './types';
+
+// Runs the engine off the main thread: `params` is one simulation, `sweep` is a grid of them
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const { runId } = e.data;
+  const post = (message: EngineMessage | SweepMessage) => self.postMessage({ ...message, runId } as WorkerResponse);
+  if ('sweep' in e.data) {
+    runSweep(e.data.sweep, post);
+  } else {
+    runSimulation(e.data.params, post);
+  }
+};
@@ -13,6 +13,33 @@ export interface ManualSpecs {
   fallTime: string;
   rthJC: string; // Thermal resistance from junction to case
   maxTemperature: string;
+  tempCoefficient?: string; // %/°C drift of Rds(on) or Vce(sat) above 25°C
+  zthFoster?: string; // Foster Zth(j-c) network as "R:tau" pairs, e.g. "0.3:0.0005, 1.2:0.01" (°C/W : s)
+  // Datasheet switching energies (µJ) and the test conditions they were measured at
+  eon?: string;
+  eoff?: string;
+  erec?: string;
+  eoss?: string; // Energy stored in Coss at the test voltage
+  energyRefVoltage?: string; // V
+  energyRefCurrent?: string; // A
+  energyRefTemperature?: string; // °C
+  // Body / freewheeling diode
+  diodeVf?: string; // V
+  diodeRd?: string; // mOhms
+  qrr?: string; // nC
+  trr?: string; // ns
+  reverseConductionVoltage?: string; // V, third-quadrant drop of a GaN FET, or the body diode of a SiC MOSFET
+  // Gate charge and capacitances, for deriving switching times from the gate driver
+  qg?: string; // nC
+  qgs?: string; // nC
+  qgd?: string; // nC
+  plateauVoltage?: string; // V, Miller plateau
+  gateResistance?: string; // Ohms, internal
+  ciss?: string; // pF
+  coss?: string; // pF
+  crss?: string; // pF
+  // Safe Operating Area, one curve per line: "<pulse width or DC> = V:I, V:I, ..." e.g. "100us = 10:150, 55:30"
+  soaCurves?: string;
 }
 
 export interface ExtractTransistorSpecsOutput extends ManualSpecs {}
@@ -51,39 +78,436 @@ export const AiDeepDiveAnalysisInputSchema = z.object({
   maxTemperature: z.number().describe('The maximum allowed temperature in degrees Celsius.'),
   coolingBudget: z.number().describe('The cooling budget available in Watts.'),
   simulationResults: z.string().describe('The results of the initial simulation.'),
-  allCoolingMethods: z.string().describe('A JSON string of all available cooling methods and their specs (name, value, thermalResistance, coolingBudget).'),
+  allCoolingMethods: z.string().describe('A JSON string of all available cooling methods and their specs (name, value, thermalResistance, coolingBudget, cost, volume).'),
   initialSpecs: z.string().describe('A JSON string of the initial transistor specifications.'),
+  optimizerResults: z.string().describe('A JSON string of the simulated optimizer search: weights, number of configurations evaluated, the verified optimum and the Pareto front.'),
 });
 export type AiDeepDiveAnalysisInput = z.infer<typeof AiDeepDiveAnalysisInputSchema>;
 
 
 export const AiDeepDiveAnalysisOutputSchema = z.object({
-    bestCoolingMethod: z.string().describe("The 'value' for the optimal cooling method found (e.g., 'air-nh-d15')."),
-    optimalFrequency: z.number().describe("The suggested optimal switching frequency in kHz."),
-    reasoning: z.string().describe("Detailed reasoning for why these new parameters are optimal, explaining the step-by-step thought process and extreme indepth analyses made to optimize the performance of the power transistor."),
-    projectedMaxSafeCurrent: z.number().describe("The new projected max safe current in Amps with these changes."),
+    reasoning: z.string().describe("A clear explanation of why the optimizer's verified optimum beats the initial configuration and what trade-offs the Pareto front offers."),
 });
 export type AiDeepDiveAnalysisOutput = z.infer<typeof AiDeepDiveAnalysisOutputSchema>;
 
 
+// Inputs of the simulation engine, converted from the analyzer form into the units noted on each field
+export interface EngineParams {
+  maxCurrent: number; // A
+  maxVoltage: number; // V
+  powerDissipation?: number; // W
+  rthJC: number; // °C/W
+  riseTime: number; // ns
+  fallTime: number; // ns
+  switchingFrequency: number; // kHz
+  maxTemperature: number; // °C
+  ambientTemperature: number; // °C
+  totalRth: number; // °C/W, junction to ambient
+  transistorType: string;
+  rdsOnOhms: number;
+  vceSat?: number; // V
+  simulationMode: 'ftf' | 'temp' | 'budget' | 'transient';
+  coolingBudget?: number; // W
+  simulationAlgorithm: 'iterative' | 'binary' | 'analytic' | 'monte-carlo';
+  precisionSteps: number;
+  binaryTolerance?: number; // A
+  binaryMaxIterations?: number;
+  effectiveCoolingBudget: number; // W
+  tempCoeff: number; // 1/°C
+  fosterNetwork: FosterStage[];
+  coolerRth: number; // °C/W
+  coolerCapacitance: number; // J/°C
+  coolant?: CoolantParams; // Liquid loops only; coolerRth already holds the loop's Rth at the delivered flow
+  loadProfile: 'step' | 'pulse' | 'mission' | 'overload';
+  pulseCurrent?: number; // A
+  pulseWidth?: number; // ms
+  pulsePeriod?: number; // ms
+  transientDuration?: number; // s
+  missionProfile: MissionProfilePoint[] | null;
+  lifetimeModel: LifetimeResult['model'];
+  topology: string;
+  inputVoltage?: number; // V
+  outputVoltage?: number; // V
+  modulationIndex?: number;
+  powerFactor?: number;
+  rippleRatio: number; // Fraction of load current, peak-to-peak
+  conductionWaveform: 'dc' | 'pwm' | 'half-sine' | 'full-sine' | 'trapezoid'; // Current shape through a DC switch
+  dutyCycle?: number; // Fraction of each period a DC switch conducts; defaults to Vout / Vin
+  eon?: number; // µJ
+  eoff?: number; // µJ
+  erec?: number; // µJ
+  eoss?: number; // µJ, at energyRefVoltage
+  energyRefVoltage?: number; // V
+  energyRefCurrent?: number; // A
+  energyRefTemperature?: number; // °C
+  diodeVf?: number; // V
+  diodeRdOhms: number;
+  qrr?: number; // nC
+  trr?: number; // ns
+  reverseConductionVoltage?: number; // V
+  switchingMode: 'hard' | 'zvs' | 'partial-zvs' | 'zcs';
+  zvsFraction?: number; // Fraction of the blocking voltage the resonant transition discharges before a partial-ZVS turn-on
+  deadTime?: number; // ns
+  qg?: number; // nC
+  qgs?: number; // nC
+  qgd?: number; // nC
+  plateauVoltage?: number; // V
+  gateResistance?: number; // Ohms, internal
+  ciss?: number; // pF
+  coss?: number; // pF
+  crss?: number; // pF
+  driveVoltage?: number; // V, gate driver output swing
+  driverSourceCurrent?: number; // A, peak
+  driverSinkCurrent?: number; // A, peak
+  externalGateResistance?: number; // Ohms
+  soaCurves: SoaCurve[];
+  strayInductance?: number; // nH
+  voltageDerating: number; // Fraction of maxVoltage
+  parallelCount: number;
+  rdsOnTolerance: number; // Fraction, ± spread
+  vthSpread?: number; // V
+  rthCS: number; // °C/W
+  sinkDeviceCount?: number;
+  monteCarloSamples: number;
+  monteCarloSeed?: number;
+  tolerances: Record<'conduction' | 'rthJC' | 'coolerRth' | 'switching', ToleranceSpread>;
+  skipMargins?: boolean; // Set by the Monte Carlo and sweep runs, which only need the limit
+}
+
+export interface FosterStage {
+  r: number; // °C/W
+  tau: number; // s
+}
+
+// Fractional spread of one parameter around its typical value, sampled by the Monte Carlo analysis
+export interface ToleranceSpread {
+  spread: number;
+  shape: 'normal' | 'uniform';
+}
+
+// Progress and result reported by the engine while a simulation runs
+export type EngineMessage =
+  | { type: 'dataPoint'; data: LiveDataPoint }
+  | { type: 'dataBatch' | 'transientBatch'; data: LiveDataPoint[] }
+  | { type: 'progress'; progress: number } // % of the run completed
+  | { type: 'complete'; result: SimulationResult };
+
+// Reported by a parameter sweep: one message per grid point, then a bare completion
+export type SweepMessage =
+  | { type: 'sweepCell'; index: number; progress: number; result: Pick<SweepCell, 'maxSafeCurrent' | 'failureReason' | 'finalTemperature'> }
+  | { type: 'complete'; result: null };
+
+// Simulation worker protocol; every reply carries the ID of the run it belongs to
+export type WorkerRequest = { runId: number } & ({ params: EngineParams } | { sweep: EngineParams[] });
+export type WorkerResponse = (EngineMessage | SweepMessage) & { runId: number };
+
 export interface SimulationResult {
   status: 'success' | 'failure';
   maxSafeCurrent: number;
-  failureReason: 'Thermal' | 'Voltage' | 'Current' | 'Power Dissipation' | 'Cooling Budget' | null;
+  failureReason: 'Thermal' | 'Thermal Runaway' | 'Voltage' | 'SOA' | 'Current' | 'Power Dissipation' | 'Cooling Budget' | null;
   details: string;
   finalTemperature: number;
   powerDissipation: {
     total: number;
     conduction: number;
     switching: number;
+    diodeConduction: number;
+    reverseRecovery: number;
+    capacitive?: number; // Coss energy dumped at turn-on, included in switching
+    deadTime?: number; // Reverse conduction during dead time, included in diodeConduction
+  };
+  transient?: {
+    peakTemperature: number;
+    peakTime: number; // s
+    duration: number; // s
   };
+  limitingDevice?: string;
+  devices?: DeviceResult[];
+  switchingLossModel?: 'timing' | 'energy';
+  gateDrive?: GateDriveResult;
+  soa?: SoaCheck;
+  peakVoltage?: number; // V, bus voltage plus turn-off overshoot on the most stressed device
+  parallelCount?: number; // Devices paralleled per switch position; maxSafeCurrent is the bank's total
+  thermalStack?: ThermalStack;
+  lifetime?: LifetimeResult;
+  overload?: OverloadResult;
+  monteCarlo?: MonteCarloResult;
+  margins?: ConstraintMargin[]; // Steady-state runs only, first limit reached first
+  analyticFallback?: string | null; // Why an analytic run fell back to the binary search
+  convergence?: BinaryConvergence;
+}
+
+// Time-to-limit of an overload switched on from ambient, and how long each current above the
+// continuous limit can last
+export interface OverloadResult {
+  current: number; // A, the overload analysed
+  timeToLimit: number | null; // s; null when Tj settles below the limit
+  continuousCurrent: number; // A, highest current that never reaches the limit
+  coolerTimeConstant: number; // s, Rth(s-a) · thermal capacitance
+  curve: { current: number; duration: number }[]; // duration in s
+}
+
+// Switching times for the actual gate driver, which replace the datasheet rise and fall times
+export interface GateDriveResult {
+  riseTime: number; // ns
+  fallTime: number; // ns
+  datasheetRiseTime: number; // ns
+  datasheetFallTime: number; // ns
+  turnOnGateCurrent: number; // A, on the Miller plateau
+  turnOffGateCurrent: number; // A, on the Miller plateau
+  gateCharge: number; // nC per switching cycle
+  gatePowerPerDevice: number; // W
+  gatePower: number; // W, every gated device in the topology
+  gatedDevices: number;
+}
+
+// How tightly a binary search bracketed maxSafeCurrent
+export interface BinaryConvergence {
+  tolerance: number; // A, requested bracket width
+  bracket: number; // A, final width between the last safe and first failing probe
+  iterations: number;
+  converged: boolean; // False if the iteration cap stopped the search first
+}
+
+// Where one constraint alone would cap the current, compared with the run's max safe current
+export interface ConstraintMargin {
+  reason: Exclude<SimulationResult['failureReason'], 'Thermal Runaway' | null>; // Thermal covers runaway
+  enforced: boolean; // False if the end condition ignores this limit
+  limit: number;
+  value: number | null; // At maxSafeCurrent, in the limit's unit; null without electrothermal equilibrium
+  unit: string;
+  limitCurrent: number | null; // A, null if never reached in the searched range
+  margin: number | null; // A, limitCurrent - maxSafeCurrent
+  boundedBy?: 'Thermal Runaway'; // Set when the thermal loop runs away before this limit is reached
+}
+
+// Max safe current over a grid of two swept form inputs; cells are stored row by row along y
+export interface SweepResult {
+  x: { parameter: string; values: (number | string)[] };
+  y: { parameter: string; values: (number | string)[] };
+  cells: SweepCell[];
+  chillerInlet?: number; // °C, set when ambient is swept for a liquid loop a chiller holds at this inlet
+}
+
+export interface SweepCell {
+  x: number | string;
+  y: number | string;
+  maxSafeCurrent: number;
+  failureReason: SimulationResult['failureReason'];
+  finalTemperature: number;
+}
+
+// Max safe current against ambient, or against a case held at a fixed temperature by an ideal heatsink
+export interface DeratingResult {
+  basis: 'ambient' | 'case';
+  coolingMethod: string | null; // Name of the cooler for ambient curves
+  currentBasis: CurrentBasis;
+  currentRating: number; // A, the device's max current
+  points: DeratingPoint[];
+}
+
+export interface DeratingPoint {
+  temperature: number; // °C, ambient or case
+  maxSafeCurrent: number;
+  failureReason: SimulationResult['failureReason'];
+}
+
+// One cooler and frequency pair evaluated by the deep dive optimizer
+export interface OptimizerCandidate {
+  coolingMethod: string;
+  switchingFrequency: number; // kHz
+  maxSafeCurrent: number; // A
+  failureReason: SimulationResult['failureReason'];
+  cost: number; // USD
+  volume: number; // cm³
+  score: number; // Weighted objective, higher is better
+}
+
+export interface OptimizerResult {
+  weights: { cost: number; size: number };
+  evaluated: number;
+  optimum: OptimizerCandidate;
+  paretoFront: OptimizerCandidate[]; // Non-dominated in current, frequency, cost and volume, best score first
+}
+
+// Spread of max safe current over parts sampled from the spec tolerances; maxSafeCurrent reports P5
+export interface MonteCarloResult {
+  samples: number;
+  seed: number; // Re-running with this seed reproduces the samples
+  nominalMaxSafeCurrent: number; // A, typical-spec part
+  p5: number; // A
+  p50: number; // A
+  p95: number; // A
+  mean: number; // A
+  standardDeviation: number; // A
+  min: number; // A
+  max: number; // A
+  histogram: { from: number; to: number; count: number }[];
+  limits: { reason: SimulationResult['failureReason']; count: number }[]; // Limit that capped each sample, most common first
+}
+
+// Power cycling lifetime from rainflow-counted Tj swings of one pass through the load profile
+export interface LifetimeResult {
+  model: 'lesit' | 'coffin-manson';
+  cycles: number; // counted cycles per pass, half cycles included as 0.5
+  consumedLife: number; // % of life used by one pass
+  repetitionsToFailure: number | null; // passes until failure, null if no swing causes wear
+  lifetimeHours: number | null;
+  worstCycle: {
+    deltaTj: number;
+    meanTj: number;
+    cyclesToFailure: number;
+  } | null;
+  deltaTjHistogram: HistogramBin[];
+  meanTjHistogram: HistogramBin[];
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  cycles: number;
+  damage: number; // Miner's rule damage contributed by the bin's cycles
+}
+
+// One row of an uploaded mission profile; a missing ambient falls back to the form's ambient temperature
+export interface MissionProfilePoint {
+  time: number; // s
+  current: number; // A
+  ambient: number | null; // °C
+}
+
+// Node temperatures along the limiting device's heat path, junction down to ambient
+export interface ThermalStack {
+  junction: number; // °C
+  case: number; // °C
+  heatsink: number; // °C
+  ambient: number; // °C
+  rthJC: number; // °C/W
+  rthCS: number; // °C/W
+  rthSA: number; // °C/W
+  devicePowerLoss: number; // W through junction and case
+  sinkPowerLoss: number; // W from every device on the heatsink
+  coolant?: CoolantResult;
+}
+
+export interface CoolantParams {
+  loop: LiquidLoop;
+  flow: number; // L/min requested
+  inletTemperature?: number; // °C, held by a chiller; otherwise the radiator sets it
+}
+
+// Coolant temperatures and pump operating point for the heat the cold plate takes
+export interface CoolantResult {
+  requestedFlow: number; // L/min
+  flow: number; // L/min delivered; less than requested when the pump runs out of head
+  coldPlateRth: number; // °C/W
+  inletTemperature: number; // °C
+  outletTemperature: number; // °C
+  radiatorCooled: boolean;
+  pumpHead: number; // kPa
+  pumpSpeed: number; // Fraction of full speed
+  hydraulicPower: number; // W
+}
+
+export interface SoaPoint {
+  voltage: number; // V
+  current: number; // A
+}
+
+// One SOA boundary from the datasheet; `pulseWidth` is null for the DC line
+export interface SoaCurve {
+  label: string;
+  pulseWidth: number | null; // s
+  points: SoaPoint[];
 }
 
+// Operating point checked against the SOA curve that applies to its pulse duration
+export interface SoaCheck {
+  curve: string;
+  pulseDuration: number | null; // s, null for continuous conduction
+  voltage: number;
+  current: number;
+  allowedCurrent: number;
+  segment: [SoaPoint, SoaPoint];
+}
+
+// Operating point of one device role in the selected converter topology
+export interface DeviceResult {
+  name: string;
+  count: number;
+  junctionTemperature: number;
+  peakVoltage?: number;
+  powerLoss: number;
+  rmsCurrent: number;
+  avgCurrent: number;
+  parallel?: ParallelDeviceResult[];
+}
+
+// One group of identical devices within a paralleled bank
+export interface ParallelDeviceResult {
+  label: string;
+  count: number;
+  currentShare: number; // fraction of the bank's conduction current carried by each device
+  rmsCurrent: number;
+  junctionTemperature: number;
+  powerLoss: number;
+}
+
+export type Topology = {
+  name: string;
+  value: string;
+  description: string;
+  currentBasis?: CurrentBasis; // Unset for the DC switch, where the conduction waveform decides
+};
+
+export type ConductionWaveform = {
+  name: string;
+  value: EngineParams['conductionWaveform'];
+  description: string;
+  currentBasis: CurrentBasis;
+};
+
+// What the load current on the analyzer's current axis measures
+export type CurrentBasis = 'peak' | 'rms' | 'average';
+
+export type SwitchingMode = {
+  name: string;
+  value: EngineParams['switchingMode'];
+  description: string;
+};
+
 export type CoolingMethod = {
   name: string;
   value: string;
   thermalResistance: number;
   coolingBudget: number;
+  thermalCapacitance: number; // J/°C
+  cost: number; // USD
+  volume: number; // cm³
+  liquid?: LiquidLoop; // Coolant model of AIO and custom loops; thermalResistance is its value at nominal flow
+};
+
+export type LiquidLoop = {
+  coldPlate: { flow: number; rth: number }[]; // L/min and °C/W from the cold plate base to the coolant inlet
+  radiatorCapacity: number; // W per °C of coolant inlet above ambient
+  nominalFlow: number; // L/min
+  pumpMaxHead: number; // kPa at zero flow
+  pumpMaxFlow: number; // L/min against no head
+  loopResistance: number; // kPa of loop pressure drop at 1 L/min; it grows with flow²
+};
+
+export type ThermalInterface = {
+  name: string;
+  value: string;
+  thermalConductivity: number; // W/m·K
+  thickness: number; // mm, typical bond line or pad thickness
+  insulating: boolean;
+};
+
+export type SweepParameter = {
+  name: string;
+  value: string; // Form field name
+  unit: string;
 };
 
 export type PredefinedTransistor = {
@@ -93,11 +517,14 @@ export type PredefinedTransistor = {
 };
 
 export interface LiveDataPoint {
+    time?: number; // s, only set by transient simulations
     current: number;
     temperature: number;
     powerLoss: number;
     conductionLoss: number;
     switchingLoss: number;
+    diodeConductionLoss: number;
+    reverseRecoveryLoss: number;
     progress: number;
     limitValue: number;
 }